@@ -0,0 +1,203 @@
+
+"use client";
+
+import React from 'react';
+import type { Feature as OLFeature } from 'ol';
+import { getUid } from 'ol/util';
+import { ArrowDown, ArrowUp, ArrowUpDown, Search, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { MapLayer } from '@/components/geo-mapper-client';
+
+interface SortConfig {
+  key: string;
+  direction: 'asc' | 'desc';
+}
+
+interface AttributeTableProps {
+  layer: MapLayer;
+  selectedFeature: OLFeature<any> | null;
+  onSelectFeature: (feature: OLFeature<any>) => void;
+  onClose: () => void;
+}
+
+const formatCellValue = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const compareValues = (a: any, b: any): number => {
+  const aEmpty = a === null || a === undefined || a === '';
+  const bEmpty = b === null || b === undefined || b === '';
+  if (aEmpty && bEmpty) return 0;
+  if (aEmpty) return 1;
+  if (bEmpty) return -1;
+
+  const aNum = typeof a === 'number' ? a : Number(a);
+  const bNum = typeof b === 'number' ? b : Number(b);
+  if (!isNaN(aNum) && !isNaN(bNum)) return aNum - bNum;
+
+  return formatCellValue(a).localeCompare(formatCellValue(b), undefined, { sensitivity: 'base' });
+};
+
+const AttributeTable: React.FC<AttributeTableProps> = ({ layer, selectedFeature, onSelectFeature, onClose }) => {
+  const [filterText, setFilterText] = React.useState('');
+  const [sortConfig, setSortConfig] = React.useState<SortConfig | null>(null);
+  const [sourceRevision, setSourceRevision] = React.useState(0);
+  const rowRefs = React.useRef<Map<string, HTMLTableRowElement>>(new Map());
+
+  const source = layer.olLayer.getSource();
+
+  // Re-read features whenever the layer source changes (features added, removed or edited).
+  React.useEffect(() => {
+    if (!source) return;
+    const handleSourceChange = () => setSourceRevision(prev => prev + 1);
+    source.on('change', handleSourceChange);
+    return () => source.un('change', handleSourceChange);
+  }, [source]);
+
+  React.useEffect(() => {
+    setFilterText('');
+    setSortConfig(null);
+  }, [layer.id]);
+
+  const features = React.useMemo(
+    () => (source ? source.getFeatures() : []),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [source, sourceRevision]
+  );
+
+  const columns = React.useMemo(() => {
+    const keys = new Set<string>();
+    features.forEach(feature => {
+      const geometryName = feature.getGeometryName();
+      Object.keys(feature.getProperties()).forEach(key => {
+        if (key !== 'geometry' && key !== geometryName) keys.add(key);
+      });
+    });
+    return Array.from(keys);
+  }, [features]);
+
+  const visibleFeatures = React.useMemo(() => {
+    const normalizedFilter = filterText.trim().toLowerCase();
+    let result = features;
+    if (normalizedFilter) {
+      result = result.filter(feature =>
+        columns.some(key => formatCellValue(feature.get(key)).toLowerCase().includes(normalizedFilter))
+      );
+    }
+    if (sortConfig) {
+      const factor = sortConfig.direction === 'asc' ? 1 : -1;
+      result = [...result].sort((a, b) => factor * compareValues(a.get(sortConfig.key), b.get(sortConfig.key)));
+    }
+    return result;
+  }, [features, columns, filterText, sortConfig]);
+
+  const selectedUid = selectedFeature ? getUid(selectedFeature) : null;
+
+  React.useEffect(() => {
+    if (!selectedUid) return;
+    const row = rowRefs.current.get(selectedUid);
+    if (row) row.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [selectedUid, visibleFeatures]);
+
+  const handleSort = (key: string) => {
+    setSortConfig(prev => {
+      if (!prev || prev.key !== key) return { key, direction: 'asc' };
+      if (prev.direction === 'asc') return { key, direction: 'desc' };
+      return null;
+    });
+  };
+
+  const renderSortIcon = (key: string) => {
+    if (!sortConfig || sortConfig.key !== key) return <ArrowUpDown className="ml-1 h-3 w-3 opacity-50" />;
+    return sortConfig.direction === 'asc' ? <ArrowUp className="ml-1 h-3 w-3" /> : <ArrowDown className="ml-1 h-3 w-3" />;
+  };
+
+  return (
+    <div className="flex h-full flex-col text-white">
+      <div className="p-2 bg-gray-700/80 flex items-center justify-between gap-2 rounded-t-lg">
+        <h2 className="text-sm font-semibold truncate" title={layer.name}>
+          Tabla de Atributos: {layer.name}
+        </h2>
+        <div className="flex items-center gap-2">
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 h-3 w-3 -translate-y-1/2 text-white/60" />
+            <Input
+              value={filterText}
+              onChange={(e) => setFilterText(e.target.value)}
+              placeholder="Filtrar entidades..."
+              className="h-7 w-48 pl-7 text-xs border-white/30 bg-black/20 text-white/90 placeholder:text-white/50"
+            />
+          </div>
+          <span className="text-xs text-white/70 whitespace-nowrap">
+            {visibleFeatures.length} de {features.length}
+          </span>
+          <Button variant="ghost" size="icon" onClick={onClose} className="h-6 w-6 text-white hover:bg-gray-600/80">
+            <X className="h-4 w-4" />
+            <span className="sr-only">Cerrar tabla</span>
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto">
+        {columns.length === 0 ? (
+          <p className="text-xs text-center text-gray-300/80 py-6">Esta capa no tiene atributos.</p>
+        ) : (
+          <Table className="text-xs">
+            <TableHeader className="sticky top-0 bg-gray-800/95">
+              <TableRow className="border-white/15 hover:bg-transparent">
+                {columns.map(key => (
+                  <TableHead key={key} className="h-8 px-2 text-white/90 whitespace-nowrap">
+                    <button type="button" onClick={() => handleSort(key)} className="flex items-center hover:text-white">
+                      {key}
+                      {renderSortIcon(key)}
+                    </button>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleFeatures.map(feature => {
+                const uid = getUid(feature);
+                return (
+                  <TableRow
+                    key={uid}
+                    ref={(el) => {
+                      if (el) rowRefs.current.set(uid, el);
+                      else rowRefs.current.delete(uid);
+                    }}
+                    data-state={uid === selectedUid ? 'selected' : undefined}
+                    onClick={() => onSelectFeature(feature)}
+                    className="cursor-pointer border-white/10 hover:bg-white/10 data-[state=selected]:bg-accent/40"
+                  >
+                    {columns.map(key => {
+                      const cellValue = formatCellValue(feature.get(key));
+                      return (
+                        <TableCell key={key} className="px-2 py-1 max-w-[200px] truncate text-white/80" title={cellValue}>
+                          {cellValue}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AttributeTable;
@@ -0,0 +1,182 @@
+
+"use client";
+
+import React from 'react';
+import { useId } from 'react';
+import type { Coordinate } from 'ol/coordinate';
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { parseCoordinateList, type AxisOrder, type CoordinateFormat } from '@/lib/coordinate-parser';
+import { PROJECTED_CRS_OPTIONS } from '@/lib/projections';
+
+export type CoordinateGeometryType = 'Point' | 'LineString' | 'Polygon';
+
+// POSGAR 2007 zone 5, central meridian 60°W, where the map opens.
+const DEFAULT_PROJECTED_CRS = 'EPSG:5347';
+
+const MIN_VERTICES: Record<CoordinateGeometryType, number> = { Point: 1, LineString: 2, Polygon: 3 };
+
+const FORMAT_PLACEHOLDERS: Record<CoordinateFormat, string> = {
+  decimal: '-34.6037, -58.3816\n-34.6090, -58.3720',
+  dms: `34°36'13"S 58°22'54"O\n34°36'32"S 58°22'19"O`,
+  projected: '5631000 6171000\n5631900 6170400',
+};
+
+const AXIS_ORDER_LABELS: Record<CoordinateFormat, Record<AxisOrder, string>> = {
+  decimal: { yx: 'Latitud, Longitud', xy: 'Longitud, Latitud' },
+  dms: { yx: 'Latitud, Longitud', xy: 'Longitud, Latitud' },
+  projected: { xy: 'Este (X), Norte (Y)', yx: 'Norte, Este' },
+};
+
+interface CoordinateInputDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (geometryType: CoordinateGeometryType, coordinates: Coordinate[]) => void; // lon/lat
+}
+
+const CoordinateInputDialog: React.FC<CoordinateInputDialogProps> = ({ open, onOpenChange, onSubmit }) => {
+  const idPrefix = useId();
+  const [format, setFormat] = React.useState<CoordinateFormat>('decimal');
+  const [axisOrder, setAxisOrder] = React.useState<AxisOrder>('yx');
+  const [crs, setCrs] = React.useState(DEFAULT_PROJECTED_CRS);
+  const [geometryType, setGeometryType] = React.useState<CoordinateGeometryType>('Point');
+  const [text, setText] = React.useState('');
+
+  const result = React.useMemo(
+    () => parseCoordinateList(text, { format, axisOrder, crs }),
+    [text, format, axisOrder, crs]
+  );
+  const minVertices = MIN_VERTICES[geometryType];
+  const canSubmit = result.coordinates.length >= minVertices && result.errors.length === 0;
+
+  const handleFormatChange = (value: string) => {
+    const newFormat = value as CoordinateFormat;
+    setFormat(newFormat);
+    // Field crews usually dictate lat/lon, while projected pairs are usually written X, Y.
+    setAxisOrder(newFormat === 'projected' ? 'xy' : 'yx');
+  };
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onSubmit(geometryType, result.coordinates);
+    setText('');
+    onOpenChange(false);
+  };
+
+  const selectTriggerClassName = "w-full text-xs h-8";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Ingresar Coordenadas</DialogTitle>
+          <DialogDescription>
+            Escriba o pegue un vértice por línea. Los puntos crean una entidad por vértice; las líneas y polígonos usan todos los vértices en orden.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor={`${idPrefix}-format`} className="text-xs">Formato</Label>
+            <Select value={format} onValueChange={handleFormatChange}>
+              <SelectTrigger id={`${idPrefix}-format`} className={selectTriggerClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="decimal" className="text-xs">Grados decimales (WGS84)</SelectItem>
+                <SelectItem value="dms" className="text-xs">Grados, minutos y segundos</SelectItem>
+                <SelectItem value="projected" className="text-xs">Proyectadas (POSGAR / UTM)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${idPrefix}-geometry`} className="text-xs">Crear</Label>
+            <Select value={geometryType} onValueChange={(value) => setGeometryType(value as CoordinateGeometryType)}>
+              <SelectTrigger id={`${idPrefix}-geometry`} className={selectTriggerClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="Point" className="text-xs">Puntos</SelectItem>
+                <SelectItem value="LineString" className="text-xs">Línea</SelectItem>
+                <SelectItem value="Polygon" className="text-xs">Polígono</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {format === 'projected' && (
+            <div className="space-y-1">
+              <Label htmlFor={`${idPrefix}-crs`} className="text-xs">Sistema de referencia</Label>
+              <Select value={crs} onValueChange={setCrs}>
+                <SelectTrigger id={`${idPrefix}-crs`} className={selectTriggerClassName}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROJECTED_CRS_OPTIONS.map(option => (
+                    <SelectItem key={option.code} value={option.code} className="text-xs">{option.name} ({option.code})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor={`${idPrefix}-axis-order`} className="text-xs">Orden de los valores</Label>
+            <Select value={axisOrder} onValueChange={(value) => setAxisOrder(value as AxisOrder)}>
+              <SelectTrigger id={`${idPrefix}-axis-order`} className={selectTriggerClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(['yx', 'xy'] as AxisOrder[]).map(order => (
+                  <SelectItem key={order} value={order} className="text-xs">{AXIS_ORDER_LABELS[format][order]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-coordinates`} className="text-xs">Coordenadas</Label>
+          <Textarea
+            id={`${idPrefix}-coordinates`}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={FORMAT_PLACEHOLDERS[format]}
+            className="min-h-[140px] font-mono text-xs"
+          />
+          {result.errors.length > 0 ? (
+            <ul className="max-h-20 overflow-y-auto text-xs text-destructive">
+              {result.errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              {result.coordinates.length} vértice(s) válido(s)
+              {result.coordinates.length > 0 && result.coordinates.length < minVertices && ` (se necesitan al menos ${minVertices})`}.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>Agregar al mapa</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CoordinateInputDialog;
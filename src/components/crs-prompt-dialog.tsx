@@ -0,0 +1,116 @@
+
+"use client";
+
+import React from 'react';
+import { useId } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { PROJECTED_CRS_OPTIONS, resolveProjection } from '@/lib/projections';
+
+export interface CrsPromptRequest {
+  fileName: string;
+  reason: string;
+}
+
+const CUSTOM_CRS = 'custom';
+
+const CRS_OPTIONS = [
+  { code: 'EPSG:4326', name: 'WGS 84 (latitud/longitud)' },
+  { code: 'EPSG:3857', name: 'WGS 84 / Pseudo-Mercator' },
+  ...PROJECTED_CRS_OPTIONS,
+];
+
+interface CrsPromptDialogProps {
+  request: CrsPromptRequest | null;
+  onResolve: (projection: string | null) => void; // null when the import is cancelled
+}
+
+const CrsPromptDialog: React.FC<CrsPromptDialogProps> = ({ request, onResolve }) => {
+  const idPrefix = useId();
+  const [selectedCode, setSelectedCode] = React.useState(PROJECTED_CRS_OPTIONS[0].code);
+  const [customDefinition, setCustomDefinition] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setError(null);
+  }, [request, selectedCode, customDefinition]);
+
+  const handleSubmit = () => {
+    if (selectedCode !== CUSTOM_CRS) {
+      onResolve(selectedCode);
+      return;
+    }
+    const projection = resolveProjection(customDefinition);
+    if (!projection) {
+      setError("No se reconoce la definición. Ingrese un código EPSG disponible, una cadena proj4 o un WKT.");
+      return;
+    }
+    onResolve(projection);
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={(open) => { if (!open) onResolve(null); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Sistema de referencia desconocido</DialogTitle>
+          <DialogDescription>
+            {request?.reason} Indique en qué sistema están las coordenadas de <strong>{request?.fileName}</strong> para ubicarlas en el mapa.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-crs`} className="text-xs">Sistema de referencia</Label>
+          <Select value={selectedCode} onValueChange={setSelectedCode}>
+            <SelectTrigger id={`${idPrefix}-crs`} className="w-full text-xs h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CRS_OPTIONS.map(option => (
+                <SelectItem key={option.code} value={option.code} className="text-xs">{option.name} ({option.code})</SelectItem>
+              ))}
+              <SelectItem value={CUSTOM_CRS} className="text-xs">Otro (EPSG, proj4 o WKT)...</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {selectedCode === CUSTOM_CRS && (
+          <div className="space-y-1">
+            <Label htmlFor={`${idPrefix}-definition`} className="text-xs">Definición</Label>
+            <Textarea
+              id={`${idPrefix}-definition`}
+              value={customDefinition}
+              onChange={(e) => setCustomDefinition(e.target.value)}
+              placeholder={'+proj=tmerc +lat_0=-90 +lon_0=-60 +k=1 +x_0=5500000 +y_0=0 +ellps=GRS80 +units=m +no_defs'}
+              className="min-h-[100px] font-mono text-xs"
+            />
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onResolve(null)}>Cancelar importación</Button>
+          <Button onClick={handleSubmit} disabled={selectedCode === CUSTOM_CRS && !customDefinition.trim()}>Aplicar</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CrsPromptDialog;
@@ -0,0 +1,185 @@
+
+"use client";
+
+import React from 'react';
+import { useId } from 'react';
+import { Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { DRAWING_LAYER_ID } from '@/lib/editing';
+import { EXPORT_FORMAT_OPTIONS, MERGED_LAYER_PROPERTY, isLonLatOnlyFormat, type ExportFormat, type ExportOptions } from '@/lib/layer-export';
+import { EXPORT_CRS_OPTIONS } from '@/lib/projections';
+
+export interface LayerExportRequest extends ExportOptions {
+  layerIds: string[]; // may include DRAWING_LAYER_ID
+}
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  layers: { id: string; name: string; }[];
+  isExporting: boolean;
+  onExport: (request: LayerExportRequest) => void;
+}
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ open, onOpenChange, layers, isExporting, onExport }) => {
+  const idPrefix = useId();
+  const [selectedLayerIds, setSelectedLayerIds] = React.useState<string[]>([]);
+  const [format, setFormat] = React.useState<ExportFormat>('geojson');
+  const [projection, setProjection] = React.useState('EPSG:4326');
+  const [merge, setMerge] = React.useState(false);
+  const [fileName, setFileName] = React.useState('exportacion');
+
+  const exportableLayers = React.useMemo(
+    () => [{ id: DRAWING_LAYER_ID, name: 'Dibujos' }, ...layers],
+    [layers]
+  );
+
+  // Every layer starts selected each time the dialog opens.
+  React.useEffect(() => {
+    if (open) setSelectedLayerIds(exportableLayers.map(layer => layer.id));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const toggleLayer = (layerId: string, checked: boolean) => {
+    setSelectedLayerIds(prev => checked ? [...prev, layerId] : prev.filter(id => id !== layerId));
+  };
+
+  const allSelected = selectedLayerIds.length === exportableLayers.length;
+  const canExport = selectedLayerIds.length > 0 && fileName.trim() !== '' && !isExporting;
+
+  const handleExport = () => {
+    if (!canExport) return;
+    // Keep the panel's layer order rather than the order the boxes were ticked in.
+    const layerIds = exportableLayers.map(layer => layer.id).filter(id => selectedLayerIds.includes(id));
+    onExport({ layerIds, format, projection: isLonLatOnlyFormat(format) ? 'EPSG:4326' : projection, merge, fileName: fileName.trim() });
+  };
+
+  const selectTriggerClassName = "w-full text-xs h-8";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Exportar Capas</DialogTitle>
+          <DialogDescription>
+            Elija las capas a exportar, el formato y el sistema de referencia de salida.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Capas</Label>
+            <Button
+              variant="link"
+              className="h-auto p-0 text-xs"
+              onClick={() => setSelectedLayerIds(allSelected ? [] : exportableLayers.map(layer => layer.id))}
+            >
+              {allSelected ? 'Ninguna' : 'Todas'}
+            </Button>
+          </div>
+          <ul className="max-h-40 space-y-1.5 overflow-y-auto rounded-md border p-2">
+            {exportableLayers.map(layer => (
+              <li key={layer.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${idPrefix}-layer-${layer.id}`}
+                  checked={selectedLayerIds.includes(layer.id)}
+                  onCheckedChange={(checked) => toggleLayer(layer.id, !!checked)}
+                />
+                <Label htmlFor={`${idPrefix}-layer-${layer.id}`} className="truncate text-xs font-normal cursor-pointer" title={layer.name}>
+                  {layer.name}
+                </Label>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor={`${idPrefix}-format`} className="text-xs">Formato</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger id={`${idPrefix}-format`} className={selectTriggerClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_FORMAT_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value} className="text-xs">{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${idPrefix}-crs`} className="text-xs">Sistema de referencia</Label>
+            <Select value={isLonLatOnlyFormat(format) ? 'EPSG:4326' : projection} onValueChange={setProjection} disabled={isLonLatOnlyFormat(format)}>
+              <SelectTrigger id={`${idPrefix}-crs`} className={selectTriggerClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_CRS_OPTIONS.map(option => (
+                  <SelectItem key={option.code} value={option.code} className="text-xs">{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${idPrefix}-file-name`} className="text-xs">Nombre del archivo</Label>
+            <Input
+              id={`${idPrefix}-file-name`}
+              value={fileName}
+              onChange={(e) => setFileName(e.target.value)}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Salida</Label>
+            <RadioGroup value={merge ? 'merge' : 'split'} onValueChange={(value) => setMerge(value === 'merge')} className="gap-1.5 pt-1">
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="split" id={`${idPrefix}-split`} />
+                <Label htmlFor={`${idPrefix}-split`} className="text-xs font-normal cursor-pointer">Un archivo por capa</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="merge" id={`${idPrefix}-merge`} />
+                <Label htmlFor={`${idPrefix}-merge`} className="text-xs font-normal cursor-pointer">Un solo archivo combinado</Label>
+              </div>
+            </RadioGroup>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {merge
+            ? selectedLayerIds.length > 1 ? `Las entidades combinadas guardan el nombre de su capa en el campo "${MERGED_LAYER_PROPERTY}".` : ''
+            : format === 'gpkg' ? 'El GeoPackage guarda cada capa en su propia tabla.' : 'Varias capas se descargan juntas en un archivo ZIP.'}
+          {isLonLatOnlyFormat(format) && ` ${format.toUpperCase()} siempre usa WGS 84 (latitud/longitud).`}
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button onClick={handleExport} disabled={!canExport}>
+            {isExporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Exportar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,132 @@
+
+"use client";
+
+import React from 'react';
+import { useId } from 'react';
+import { Check } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { BUILT_IN_FIELDS, coerceFieldValue, formatFieldValue, type FieldDefinition } from '@/lib/field-schema';
+
+// Radix Select can't hold an empty value, so "no choice" gets its own item.
+const EMPTY_CHOICE = '__empty__';
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Nombre',
+  description: 'Descripción',
+};
+
+interface FeatureAttributeFormProps {
+  attributes: Record<string, any>;
+  schema: FieldDefinition[];
+  onSubmit: (values: Record<string, string | number | null>) => void;
+}
+
+/** Edits the built-in and schema fields of one feature. The draft resets whenever `attributes` changes. */
+const FeatureAttributeForm: React.FC<FeatureAttributeFormProps> = ({ attributes, schema, onSubmit }) => {
+  const idPrefix = useId();
+  const fields = React.useMemo(() => [...BUILT_IN_FIELDS, ...schema], [schema]);
+  const [draft, setDraft] = React.useState<Record<string, string>>({});
+
+  React.useEffect(() => {
+    setDraft(Object.fromEntries(fields.map(field => [field.name, formatFieldValue(field, attributes[field.name])])));
+  }, [attributes, fields]);
+
+  const fieldNames = new Set(fields.map(field => field.name));
+  const otherAttributes = Object.entries(attributes).filter(([key]) => !fieldNames.has(key));
+
+  const isDirty = fields.some(field => (draft[field.name] ?? '') !== formatFieldValue(field, attributes[field.name]));
+
+  const setValue = (name: string, value: string) => setDraft(prev => ({ ...prev, [name]: value }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const values: Record<string, string | number | null> = {};
+    fields.forEach(field => {
+      values[field.name] = coerceFieldValue(field, draft[field.name] ?? '');
+    });
+    onSubmit(values);
+  };
+
+  const inputClassName = "h-7 text-xs border-white/30 bg-black/20 text-white/90";
+
+  const renderInput = (field: FieldDefinition) => {
+    const id = `${idPrefix}-${field.name}`;
+    const value = draft[field.name] ?? '';
+    if (field.name === 'description') {
+      return (
+        <Textarea
+          id={id}
+          value={value}
+          onChange={(e) => setValue(field.name, e.target.value)}
+          className="min-h-[48px] text-xs border-white/30 bg-black/20 text-white/90"
+        />
+      );
+    }
+    if (field.type === 'choice') {
+      const options = field.options ?? [];
+      // Keep values loaded from elsewhere selectable even if they aren't listed options.
+      const allOptions = value && !options.includes(value) ? [...options, value] : options;
+      return (
+        <Select value={value || EMPTY_CHOICE} onValueChange={(newValue) => setValue(field.name, newValue === EMPTY_CHOICE ? '' : newValue)}>
+          <SelectTrigger id={id} className={`${inputClassName} focus:ring-primary`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-700 text-white border-gray-600">
+            <SelectItem value={EMPTY_CHOICE} className="text-xs hover:bg-gray-600 focus:bg-gray-600">(sin valor)</SelectItem>
+            {allOptions.map(option => (
+              <SelectItem key={option} value={option} className="text-xs hover:bg-gray-600 focus:bg-gray-600">{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    return (
+      <Input
+        id={id}
+        type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+        step={field.type === 'number' ? 'any' : undefined}
+        value={value}
+        onChange={(e) => setValue(field.name, e.target.value)}
+        className={inputClassName}
+      />
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      {fields.map(field => (
+        <div key={field.name} className="space-y-0.5">
+          <Label htmlFor={`${idPrefix}-${field.name}`} className="text-xs font-medium text-white/90">
+            {FIELD_LABELS[field.name] ?? field.name}
+          </Label>
+          {renderInput(field)}
+        </div>
+      ))}
+      {otherAttributes.length > 0 && (
+        <ul className="text-xs text-white/70 space-y-1 border-t border-white/10 pt-1.5">
+          {otherAttributes.map(([key, value]) => (
+            <li key={key} className="truncate">
+              <span className="font-semibold">{key}:</span> {String(value)}
+            </li>
+          ))}
+        </ul>
+      )}
+      <Button type="submit" disabled={!isDirty} className="w-full bg-primary hover:bg-primary/90 text-primary-foreground text-xs h-8">
+        <Check className="mr-2 h-3 w-3" /> Aplicar Atributos
+      </Button>
+    </form>
+  );
+};
+
+export default FeatureAttributeForm;
@@ -0,0 +1,135 @@
+
+"use client";
+
+import React from 'react';
+import { useId } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { FIELD_TYPE_LABELS, validateFieldName, type FieldDefinition, type FieldType } from '@/lib/field-schema';
+
+interface FieldSchemaEditorProps {
+  schema: FieldDefinition[];
+  onChange: (schema: FieldDefinition[]) => void;
+}
+
+function parseOptions(text: string): string[] {
+  return Array.from(new Set(text.split(',').map(option => option.trim()).filter(Boolean)));
+}
+
+const FieldSchemaEditor: React.FC<FieldSchemaEditorProps> = ({ schema, onChange }) => {
+  const idPrefix = useId();
+  const [newFieldName, setNewFieldName] = React.useState('');
+  const [newFieldType, setNewFieldType] = React.useState<FieldType>('text');
+  const [newFieldOptions, setNewFieldOptions] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+
+  const addField = () => {
+    const validationError = validateFieldName(newFieldName, schema);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    const options = parseOptions(newFieldOptions);
+    if (newFieldType === 'choice' && options.length === 0) {
+      setError("Indique al menos una opción, separadas por comas.");
+      return;
+    }
+    const field: FieldDefinition = { name: newFieldName.trim(), type: newFieldType };
+    if (newFieldType === 'choice') field.options = options;
+    onChange([...schema, field]);
+    setNewFieldName('');
+    setNewFieldOptions('');
+    setError(null);
+  };
+
+  const updateOptions = (index: number, text: string) => {
+    const options = parseOptions(text);
+    if (options.length === 0) return;
+    onChange(schema.map((field, i) => (i === index ? { ...field, options } : field)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {schema.length === 0 ? (
+        <p className="text-xs text-gray-300/80">Sin campos personalizados. Todas las entidades tienen nombre y descripción.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {schema.map((field, index) => (
+            <li key={field.name} className="space-y-1 rounded-md bg-black/20 p-1.5">
+              <div className="flex items-center gap-2">
+                <span className="flex-1 truncate text-xs font-medium text-white/90" title={field.name}>{field.name}</span>
+                <span className="text-xs text-gray-300/80">{FIELD_TYPE_LABELS[field.type]}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 text-white/70 hover:bg-red-500/20 hover:text-red-300"
+                  onClick={() => onChange(schema.filter((_, i) => i !== index))}
+                  title={`Quitar campo ${field.name} (los valores cargados se conservan)`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+              {field.type === 'choice' && (
+                <Input
+                  defaultValue={(field.options ?? []).join(', ')}
+                  onBlur={(e) => updateOptions(index, e.target.value)}
+                  className="h-7 text-xs border-white/30 bg-black/20 text-white/90"
+                  title="Opciones separadas por comas"
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-1.5 border-t border-white/10 pt-2">
+        <Label htmlFor={`${idPrefix}-field-name`} className="text-xs font-medium text-white/90">Nuevo campo</Label>
+        <div className="flex gap-2">
+          <Input
+            id={`${idPrefix}-field-name`}
+            value={newFieldName}
+            onChange={(e) => setNewFieldName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') addField(); }}
+            placeholder="Nombre"
+            className="h-8 flex-1 text-xs border-white/30 bg-black/20 text-white/90"
+          />
+          <Select value={newFieldType} onValueChange={(value) => setNewFieldType(value as FieldType)}>
+            <SelectTrigger className="h-8 w-28 text-xs border-white/30 bg-black/20 text-white/90 focus:ring-primary">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-700 text-white border-gray-600">
+              {(Object.keys(FIELD_TYPE_LABELS) as FieldType[]).map(type => (
+                <SelectItem key={type} value={type} className="text-xs hover:bg-gray-600 focus:bg-gray-600">{FIELD_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {newFieldType === 'choice' && (
+          <Input
+            value={newFieldOptions}
+            onChange={(e) => setNewFieldOptions(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') addField(); }}
+            placeholder="Opciones separadas por comas"
+            className="h-8 text-xs border-white/30 bg-black/20 text-white/90"
+          />
+        )}
+        {error && <p className="text-xs text-red-300">{error}</p>}
+        <Button onClick={addField} variant="outline" className="w-full text-xs h-8 border-white/30 hover:bg-white/10 text-white/90">
+          <Plus className="mr-1 h-3 w-3" /> Agregar campo
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default FieldSchemaEditor;
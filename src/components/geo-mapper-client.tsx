@@ -5,28 +5,103 @@ import React, { useState, useRef, useCallback, useEffect } from 'react';
 import type { Map as OLMap, Feature as OLFeature } from 'ol';
 import type VectorLayerType from 'ol/layer/Vector';
 import type VectorSourceType from 'ol/source/Vector';
-import type { Extent } from 'ol/extent';
-import { ChevronDown, ChevronUp, Map as MapIcon, Plus } from 'lucide-react'; // Added MapIcon, Plus
-import Draw from 'ol/interaction/Draw';
-import { KML, GeoJSON } from 'ol/format';
+import { boundingExtent, type Extent } from 'ol/extent';
+import type Geometry from 'ol/geom/Geometry';
+import type CircleGeometry from 'ol/geom/Circle';
+import { ChevronDown, ChevronUp, Map as MapIcon, Plus, FolderOpen, Save } from 'lucide-react'; // Added MapIcon, Plus
+import Draw, { createBox, type Options as DrawOptions } from 'ol/interaction/Draw';
+import Modify from 'ol/interaction/Modify';
+import Translate from 'ol/interaction/Translate';
+import Select from 'ol/interaction/Select';
+import Snap from 'ol/interaction/Snap';
+import type Interaction from 'ol/interaction/Interaction';
+import { click } from 'ol/events/condition';
+import { GeoJSON } from 'ol/format';
 import VectorLayer from 'ol/layer/Vector';
 import VectorSource from 'ol/source/Vector';
 import { Style, Fill, Stroke, Circle as CircleStyle } from 'ol/style';
-import { transformExtent } from 'ol/proj';
+import { transformExtent, toLonLat, fromLonLat } from 'ol/proj';
+import { Feature } from 'ol';
+import Point from 'ol/geom/Point';
+import LineString from 'ol/geom/LineString';
+import Polygon, { fromCircle } from 'ol/geom/Polygon';
 import osmtogeojson from 'osmtogeojson';
-import shpwrite from 'shp-write';
 
 import MapView, { BASE_LAYER_DEFINITIONS } from '@/components/map-view';
 import MapControls from '@/components/map-controls';
+import AttributeTable from '@/components/attribute-table';
+import MapStatusBar from '@/components/map-status-bar';
+import type { LayerPropertiesUpdate } from '@/components/layer-properties-editor';
+import type { CoordinateGeometryType } from '@/components/coordinate-input-dialog';
+import type { LayerExportRequest } from '@/components/export-dialog';
+import CrsPromptDialog from '@/components/crs-prompt-dialog';
+import TableImportDialog from '@/components/table-import-dialog';
 import { Toaster } from "@/components/ui/toaster";
+import { applyLayerStyle, createOLStyle, hasFeatureStyles, restoreFeatureStyles, type LayerStyle } from '@/lib/layer-style';
+import {
+  PROJECT_FILE_EXTENSION,
+  createMapLayerFromProject,
+  createProjectFile,
+  createProjectLayerInfo,
+  createProjectViewState,
+  getProjectViewCenter,
+  parseProjectFile,
+  readFeatureCollection,
+  writeFeatureCollection,
+  writeLayerFeatures,
+  type ProjectFile,
+  type ProjectLayerFeatures,
+} from '@/lib/project';
+import {
+  DRAWINGS_FEATURES_KEY,
+  clearSession,
+  hasSessionContent,
+  loadSession,
+  saveSession,
+  type StoredSession,
+  type StoredSessionState,
+} from '@/lib/session-store';
+import { readUrlState, writeUrlState } from '@/lib/url-state';
+import { DRAWING_LAYER_ID, type DrawTool, type EditTool } from '@/lib/editing';
+import { createExportFeatures, type FieldDefinition } from '@/lib/field-schema';
+import { DEFAULT_MEASURE_UNITS, type MeasureTool, type MeasureUnits } from '@/lib/measurement';
+import { buildLayerExport, type ExportFile, type ExportFormat } from '@/lib/layer-export';
+import { getTrackSummary } from '@/lib/gpx';
 import { useToast } from "@/hooks/use-toast";
+import { useCommandHistory } from '@/hooks/use-command-history';
+import { useMeasureTool } from '@/hooks/use-measure-tool';
+import { useLayerImport } from '@/hooks/use-layer-import';
 import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 
 export interface MapLayer {
   id: string;
   name: string;
   olLayer: VectorLayerType<VectorSourceType<OLFeature<any>>>;
   visible: boolean;
+  style?: LayerStyle;
+  opacity?: number;
+  minZoom?: number;
+  maxZoom?: number;
+  fieldSchema?: FieldDefinition[];
+  objectUrls?: string[]; // images of the features' styles, possibly shared with other layers of the same file
+}
+
+/** Revokes the object URLs of removed layers that none of `layers` still uses. */
+function revokeUnusedObjectUrls(removedLayers: MapLayer[], layers: MapLayer[]) {
+  const usedUrls = new Set(layers.flatMap(layer => layer.objectUrls ?? []));
+  removedLayers.flatMap(layer => layer.objectUrls ?? []).forEach(url => {
+    if (!usedUrls.has(url)) URL.revokeObjectURL(url);
+  });
 }
 
 interface OSMCategoryConfig {
@@ -34,7 +109,7 @@ interface OSMCategoryConfig {
   name: string;
   overpassQueryFragment: (bboxStr: string) => string;
   matcher: (tags: any) => boolean;
-  style: Style;
+  style: LayerStyle;
 }
 
 const osmCategoryConfig: OSMCategoryConfig[] = [
@@ -43,49 +118,49 @@ const osmCategoryConfig: OSMCategoryConfig[] = [
     name: 'OSM Cursos de Agua',
     overpassQueryFragment: (bboxStr) => `nwr[waterway~"^(river|stream)$"](${bboxStr});`,
     matcher: (tags) => tags && (tags.waterway === 'river' || tags.waterway === 'stream'),
-    style: new Style({ stroke: new Stroke({ color: '#3a86ff', width: 2 }) })
+    style: { fillColor: '#3a86ff', fillOpacity: 0, strokeColor: '#3a86ff', strokeWidth: 2, strokeDash: 'solid', pointRadius: 0, pointSymbol: 'circle' }
   },
   {
     id: 'water_bodies',
     name: 'OSM Cuerpos de Agua',
     overpassQueryFragment: (bboxStr) => `nwr[natural="water"](${bboxStr});\nnwr[landuse="reservoir"](${bboxStr});`,
     matcher: (tags) => tags && (tags.natural === 'water' || tags.landuse === 'reservoir'),
-    style: new Style({ fill: new Fill({ color: 'rgba(58,134,255,0.4)' }), stroke: new Stroke({ color: '#3a86ff', width: 1 }) })
+    style: { fillColor: '#3a86ff', fillOpacity: 0.4, strokeColor: '#3a86ff', strokeWidth: 1, strokeDash: 'solid', pointRadius: 0, pointSymbol: 'circle' }
   },
   {
     id: 'roads_paths',
     name: 'OSM Rutas y Caminos',
     overpassQueryFragment: (bboxStr) => `nwr[highway](${bboxStr});`,
     matcher: (tags) => tags && !!tags.highway,
-    style: new Style({ stroke: new Stroke({ color: '#adb5bd', width: 3 }) })
+    style: { fillColor: '#adb5bd', fillOpacity: 0, strokeColor: '#adb5bd', strokeWidth: 3, strokeDash: 'solid', pointRadius: 0, pointSymbol: 'circle' }
   },
   {
     id: 'admin_boundaries',
     name: 'OSM Límites Admin.',
     overpassQueryFragment: (bboxStr) => `nwr[boundary="administrative"][admin_level](${bboxStr});`,
     matcher: (tags) => tags && tags.boundary === 'administrative' && tags.admin_level,
-    style: new Style({ stroke: new Stroke({ color: '#ff006e', width: 2, lineDash: [4, 8] }) })
+    style: { fillColor: '#ff006e', fillOpacity: 0, strokeColor: '#ff006e', strokeWidth: 2, strokeDash: 'dashed', pointRadius: 0, pointSymbol: 'circle' }
   },
   {
     id: 'green_areas',
     name: 'OSM Áreas Verdes',
     overpassQueryFragment: (bboxStr) => `nwr[leisure="park"](${bboxStr});\nnwr[landuse="forest"](${bboxStr});\nnwr[natural="wood"](${bboxStr});`,
     matcher: (tags) => tags && (tags.leisure === 'park' || tags.landuse === 'forest' || tags.natural === 'wood'),
-    style: new Style({ fill: new Fill({ color: 'rgba(13,166,75,0.4)' }), stroke: new Stroke({ color: '#0da64b', width: 1 }) })
+    style: { fillColor: '#0da64b', fillOpacity: 0.4, strokeColor: '#0da64b', strokeWidth: 1, strokeDash: 'solid', pointRadius: 0, pointSymbol: 'circle' }
   },
   {
     id: 'health_centers',
     name: 'OSM Centros de Salud',
     overpassQueryFragment: (bboxStr) => `nwr[amenity~"^(hospital|clinic|doctors|pharmacy)$"](${bboxStr});`,
     matcher: (tags) => tags && ['hospital', 'clinic', 'doctors', 'pharmacy'].includes(tags.amenity),
-    style: new Style({ image: new CircleStyle({ radius: 6, fill: new Fill({color: '#d90429'}), stroke: new Stroke({color: 'white', width: 1.5})})})
+    style: { fillColor: '#d90429', fillOpacity: 0.4, strokeColor: '#ffffff', strokeWidth: 1.5, strokeDash: 'solid', pointRadius: 6, pointSymbol: 'circle' }
   },
   {
     id: 'educational',
     name: 'OSM Educacionales',
     overpassQueryFragment: (bboxStr) => `nwr[amenity~"^(school|university|college|kindergarten)$"](${bboxStr});`,
     matcher: (tags) => tags && ['school', 'university', 'college', 'kindergarten'].includes(tags.amenity),
-    style: new Style({ image: new CircleStyle({ radius: 6, fill: new Fill({color: '#8338ec'}), stroke: new Stroke({color: 'white', width: 1.5})})})
+    style: { fillColor: '#8338ec', fillOpacity: 0.4, strokeColor: '#ffffff', strokeWidth: 1.5, strokeDash: 'solid', pointRadius: 6, pointSymbol: 'circle' }
   },
 ];
 
@@ -99,6 +174,20 @@ const availableBaseLayersForSelect = BASE_LAYER_DEFINITIONS.map(def => ({
 
 const PANEL_WIDTH = 350; 
 const PANEL_PADDING = 16; 
+const ATTRIBUTE_TABLE_HEIGHT = 280;
+// OpenLayers treats a layer's minZoom as exclusive; offsetting it makes the configured zoom itself visible.
+const MIN_ZOOM_EPSILON = 1e-6;
+const SESSION_SAVE_DEBOUNCE_MS = 1500;
+
+const highlightStyle = new Style({
+  fill: new Fill({ color: 'rgba(255, 221, 0, 0.35)' }),
+  stroke: new Stroke({ color: '#ffdd00', width: 4 }),
+  image: new CircleStyle({
+    radius: 8,
+    fill: new Fill({ color: 'rgba(255, 221, 0, 0.6)' }),
+    stroke: new Stroke({ color: '#ffdd00', width: 2 })
+  }),
+});
 
 function triggerDownload(content: string, fileName: string, contentType: string) {
   const blob = new Blob([content], { type: contentType });
@@ -122,9 +211,52 @@ function triggerDownloadArrayBuffer(content: ArrayBuffer, fileName: string, cont
   URL.revokeObjectURL(link.href);
 }
 
+function getFeatureAttributes(feature: OLFeature<any>): Record<string, any> {
+  const properties = feature.getProperties();
+  const attributes: Record<string, any> = {};
+  for (const key in properties) {
+    if (key !== 'geometry' && key !== feature.getGeometryName()) {
+      attributes[key] = properties[key];
+    }
+  }
+  return attributes;
+}
+
+// Sides of the polygon that replaces a drawn circle.
+const CIRCLE_POLYGON_SIDES = 64;
+
+function getDrawOptions(tool: DrawTool): Pick<DrawOptions, 'type' | 'geometryFunction' | 'freehand'> {
+  switch (tool) {
+    case 'Box':
+      return { type: 'Circle', geometryFunction: createBox() };
+    case 'Freehand':
+      return { type: 'LineString', freehand: true };
+    default:
+      return { type: tool };
+  }
+}
+
+function captureGeometries(features: OLFeature<any>[]): Map<OLFeature<any>, Geometry | undefined> {
+  return new Map(features.map(feature => [feature, feature.getGeometry()?.clone()]));
+}
+
+function restoreGeometries(geometries: Map<OLFeature<any>, Geometry | undefined>) {
+  geometries.forEach((geometry, feature) => feature.setGeometry(geometry?.clone()));
+}
+
+function removeFeatureIfPresent(source: VectorSourceType<OLFeature<any>>, feature: OLFeature<any>) {
+  if (source.hasFeature(feature)) source.removeFeature(feature);
+}
+
+function addFeatureIfMissing(source: VectorSourceType<OLFeature<any>>, feature: OLFeature<any>) {
+  if (!source.hasFeature(feature)) source.addFeature(feature);
+}
+
 export default function GeoMapperClient() {
   const [layers, setLayers] = useState<MapLayer[]>([]);
   const mapRef = useRef<OLMap | null>(null);
+  // Mirrors mapRef for components that need to re-render once the map exists.
+  const [mapInstance, setMapInstanceState] = useState<OLMap | null>(null);
   const mapAreaRef = useRef<HTMLDivElement>(null);
   
   const toolsPanelRef = useRef<HTMLDivElement>(null);
@@ -141,14 +273,44 @@ export default function GeoMapperClient() {
 
   const [isInspectModeActive, setIsInspectModeActive] = useState(false);
   const [selectedFeatureAttributes, setSelectedFeatureAttributes] = useState<Record<string, any> | null>(null);
+  const [selectedFeature, setSelectedFeature] = useState<OLFeature<any> | null>(null);
+  const [attributeTableLayerId, setAttributeTableLayerId] = useState<string | null>(null);
 
   const { toast } = useToast();
+  const {
+    push: pushHistory,
+    undo: undoHistory,
+    redo: redoHistory,
+    clear: clearHistory,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+  } = useCommandHistory();
 
   const drawingSourceRef = useRef<VectorSourceType<OLFeature<any>> | null>(null);
   const drawingLayerRef = useRef<VectorLayerType<VectorSourceType<OLFeature<any>>> | null>(null);
   const drawInteractionRef = useRef<Draw | null>(null);
 
+  const highlightSourceRef = useRef<VectorSourceType<OLFeature<any>> | null>(null);
+  const highlightLayerRef = useRef<VectorLayerType<VectorSourceType<OLFeature<any>>> | null>(null);
+
   const [activeDrawTool, setActiveDrawTool] = useState<string | null>(null);
+  const drawSnapInteractionsRef = useRef<Snap[]>([]);
+
+  const [activeEditTool, setActiveEditTool] = useState<EditTool | null>(null);
+  const [editTargetLayerId, setEditTargetLayerId] = useState<string>(DRAWING_LAYER_ID);
+  const [isSnapEnabled, setIsSnapEnabled] = useState(true);
+  const [drawingFieldSchema, setDrawingFieldSchema] = useState<FieldDefinition[]>([]);
+  const [measureUnits, setMeasureUnits] = useState<MeasureUnits>(DEFAULT_MEASURE_UNITS);
+  const {
+    activeMeasureTool,
+    toggleMeasureTool,
+    stopMeasureTool,
+    clearMeasurements,
+    takeMeasurements,
+    measurementCount,
+  } = useMeasureTool(mapRef, measureUnits);
   const [isFetchingOSM, setIsFetchingOSM] = useState(false);
   const [selectedOSMCategoryIds, setSelectedOSMCategoryIds] = useState<string[]>([]);
   
@@ -157,7 +319,6 @@ export default function GeoMapperClient() {
     selectedOSMCategoryIdsRef.current = selectedOSMCategoryIds;
   }, [selectedOSMCategoryIds]);
 
-  const [downloadFormat, setDownloadFormat] = useState<string>('geojson');
   const [isDownloading, setIsDownloading] = useState(false);
   const [activeBaseLayerId, setActiveBaseLayerId] = useState<string>(BASE_LAYER_DEFINITIONS[0].id);
 
@@ -178,14 +339,45 @@ export default function GeoMapperClient() {
     }
   }, []); 
 
+  const layersRef = useRef(layers);
+  useEffect(() => {
+    layersRef.current = layers;
+  }, [layers]);
+
   const addLayer = useCallback((newLayer: MapLayer) => {
     setLayers(prevLayers => [...prevLayers, newLayer]);
   }, []);
 
+  const {
+    importFiles,
+    cancelImport,
+    isImporting,
+    reports: importReports,
+    clearReports: clearImportReports,
+    crsPromptRequest,
+    resolveCrsPrompt,
+    tableImportSource,
+    resolveTableImport,
+  } = useLayerImport(addLayer);
+
   const removeLayer = useCallback((layerId: string) => {
+    const removedIndex = layers.findIndex(layer => layer.id === layerId);
+    if (removedIndex === -1) return;
+    const removedLayer = layers[removedIndex];
     setLayers(prevLayers => prevLayers.filter(layer => layer.id !== layerId));
-    toast({ title: "Capa Eliminada", description: "La capa ha sido eliminada del mapa." });
-  }, [toast]);
+    pushHistory({
+      label: `Eliminar capa ${removedLayer.name}`,
+      undo: () => setLayers(prevLayers => {
+        const restored = [...prevLayers];
+        restored.splice(Math.min(removedIndex, restored.length), 0, removedLayer);
+        return restored;
+      }),
+      redo: () => setLayers(prevLayers => prevLayers.filter(layer => layer.id !== layerId)),
+      // Undoing the removal needs the layer's images, so they're released only once it can't be undone.
+      dispose: () => revokeUnusedObjectUrls([removedLayer], layersRef.current),
+    });
+    toast({ title: "Capa Eliminada", description: "La capa ha sido eliminada del mapa (Ctrl+Z para deshacer)." });
+  }, [layers, pushHistory, toast]);
 
   const toggleLayerVisibility = useCallback((layerId: string) => {
     setLayers(prevLayers =>
@@ -199,6 +391,48 @@ export default function GeoMapperClient() {
     );
   }, []);
 
+  const reorderLayer = useCallback((layerId: string, targetIndex: number) => {
+    setLayers(prevLayers => {
+      const currentIndex = prevLayers.findIndex(l => l.id === layerId);
+      if (currentIndex === -1 || currentIndex === targetIndex) return prevLayers;
+      const reordered = [...prevLayers];
+      const [movedLayer] = reordered.splice(currentIndex, 1);
+      reordered.splice(Math.max(0, Math.min(targetIndex, reordered.length)), 0, movedLayer);
+      return reordered;
+    });
+  }, []);
+
+  const updateLayerProperties = useCallback((layerId: string, changes: LayerPropertiesUpdate) => {
+    setLayers(prevLayers => prevLayers.map(l => (l.id === layerId ? { ...l, ...changes } : l)));
+  }, []);
+
+  const updateLayerStyle = useCallback((layerId: string, style: LayerStyle) => {
+    const layer = layers.find(l => l.id === layerId);
+    if (!layer) return;
+    const setLayerStyle = (layerStyle: LayerStyle | undefined) =>
+      setLayers(prevLayers => prevLayers.map(l => (l.id === layerId ? { ...l, style: layerStyle } : l)));
+    // The first layer style overrides the styles the features brought (e.g. KML icons); undoing it brings them back.
+    if (hasFeatureStyles(layer.olLayer)) {
+      const { olLayer, style: previousStyle } = layer;
+      const previousOLStyle = olLayer.getStyle();
+      pushHistory({
+        label: `Estilo de capa ${layer.name}`,
+        undo: () => {
+          olLayer.setStyle(previousOLStyle);
+          restoreFeatureStyles(olLayer);
+          setLayerStyle(previousStyle);
+        },
+        redo: () => {
+          applyLayerStyle(olLayer, style);
+          setLayerStyle(style);
+        },
+      });
+      toast({ title: "Estilos Reemplazados", description: "El estilo de la capa reemplaza los estilos propios de sus entidades (Ctrl+Z para restaurarlos)." });
+    }
+    applyLayerStyle(layer.olLayer, style);
+    setLayerStyle(style);
+  }, [layers, pushHistory, toast]);
+
   const setMapInstance = useCallback((mapInstance: OLMap) => {
     mapRef.current = mapInstance;
 
@@ -259,6 +493,17 @@ export default function GeoMapperClient() {
         toast({ title: "Error Crítico", description: "No se pudo inicializar la capa de dibujo (instantiation).", variant: "destructive"});
       }
     }
+
+    if (!highlightLayerRef.current) {
+      highlightSourceRef.current = new VectorSource({ wrapX: false });
+      highlightLayerRef.current = new VectorLayer({
+        source: highlightSourceRef.current,
+        style: highlightStyle,
+        zIndex: 2000
+      });
+      mapRef.current.addLayer(highlightLayerRef.current);
+    }
+    setMapInstanceState(mapInstance);
   }, [toast]);
 
 
@@ -267,7 +512,7 @@ export default function GeoMapperClient() {
     const currentMap = mapRef.current;
 
     const olMapVectorLayers = currentMap.getLayers().getArray()
-      .filter(l => !l.get('isBaseLayer') && l !== drawingLayerRef.current) as VectorLayerType<VectorSourceType<OLFeature<any>>>[];
+      .filter(l => !l.get('isBaseLayer') && !l.get('isMeasureLayer') && l !== drawingLayerRef.current && l !== highlightLayerRef.current) as VectorLayerType<VectorSourceType<OLFeature<any>>>[];
     
     olMapVectorLayers.forEach(olMapLayer => {
         currentMap.removeLayer(olMapLayer);
@@ -278,6 +523,9 @@ export default function GeoMapperClient() {
         currentMap.addLayer(appLayer.olLayer);
       }
       appLayer.olLayer.setVisible(appLayer.visible);
+      appLayer.olLayer.setOpacity(appLayer.opacity ?? 1);
+      appLayer.olLayer.setMinZoom(appLayer.minZoom !== undefined ? appLayer.minZoom - MIN_ZOOM_EPSILON : -Infinity);
+      appLayer.olLayer.setMaxZoom(appLayer.maxZoom ?? Infinity);
       appLayer.olLayer.setZIndex(100 + layers.indexOf(appLayer));
     });
 
@@ -288,30 +536,77 @@ export default function GeoMapperClient() {
       drawingLayerRef.current.setZIndex(100 + layers.length + 100); 
     }
 
+    if (highlightLayerRef.current) {
+      if (!currentMap.getLayers().getArray().includes(highlightLayerRef.current)) {
+         currentMap.addLayer(highlightLayerRef.current);
+      }
+      highlightLayerRef.current.setZIndex(100 + layers.length + 200);
+    }
+
   }, [layers]); 
 
+  useEffect(() => {
+    if (attributeTableLayerId && !layers.some(l => l.id === attributeTableLayerId)) {
+      setAttributeTableLayerId(null);
+    }
+    if (selectedFeature && !drawingSourceRef.current?.hasFeature(selectedFeature) && !layers.some(l => l.olLayer.getSource()?.hasFeature(selectedFeature))) {
+      setSelectedFeature(null);
+      setSelectedFeatureAttributes(null);
+    }
+  }, [layers, attributeTableLayerId, selectedFeature]);
+
+  useEffect(() => {
+    const drawingSource = drawingSourceRef.current;
+    if (!drawingSource || !selectedFeature) return;
+    // Drawn features can disappear without a layers change (undo, delete tool, clearing).
+    const handleDrawingRemoval = () => {
+      if (!drawingSource.hasFeature(selectedFeature)) {
+        setSelectedFeature(null);
+        setSelectedFeatureAttributes(null);
+      }
+    };
+    drawingSource.on(['removefeature', 'clear'], handleDrawingRemoval);
+    return () => drawingSource.un(['removefeature', 'clear'], handleDrawingRemoval);
+  }, [selectedFeature]);
+
+  useEffect(() => {
+    if (!selectedFeature) return;
+    const refreshAttributes = () => setSelectedFeatureAttributes(getFeatureAttributes(selectedFeature));
+    selectedFeature.on('propertychange', refreshAttributes);
+    return () => selectedFeature.un('propertychange', refreshAttributes);
+  }, [selectedFeature]);
+
+  useEffect(() => {
+    const highlightSource = highlightSourceRef.current;
+    if (!highlightSource) return;
+    highlightSource.clear();
+    if (selectedFeature) highlightSource.addFeature(selectedFeature);
+  }, [selectedFeature]);
+
 
   const handleMapClick = useCallback((event: any) => {
-    if (!isInspectModeActive || !mapRef.current || activeDrawTool) return;
+    if (!isInspectModeActive || !mapRef.current || activeDrawTool || activeEditTool || activeMeasureTool) return;
 
     const clickedPixel = mapRef.current.getEventPixel(event.originalEvent);
     let featureFound = false;
     mapRef.current.forEachFeatureAtPixel(clickedPixel, (feature, layer) => {
-      if (featureFound || layer === drawingLayerRef.current) return; 
-      const properties = feature.getProperties();
-      const attributesToShow: Record<string, any> = {};
-      for (const key in properties) {
-        if (key !== 'geometry' && key !== feature.getGeometryName()) {
-          attributesToShow[key] = properties[key];
-        }
+      if (featureFound || layer === highlightLayerRef.current) return; 
+      const olFeature = feature as OLFeature<any>;
+      setSelectedFeatureAttributes(getFeatureAttributes(olFeature));
+      setSelectedFeature(olFeature);
+      const ownerLayer = layers.find(l => l.olLayer === layer);
+      if (ownerLayer) {
+        setAttributeTableLayerId(prev => (prev ? ownerLayer.id : prev));
       }
-      setSelectedFeatureAttributes(attributesToShow);
       featureFound = true;
       toast({ title: "Entidad Seleccionada", description: "Atributos mostrados en el panel." });
       return true; 
     });
-    if (!featureFound) setSelectedFeatureAttributes(null);
-  }, [isInspectModeActive, activeDrawTool, toast]);
+    if (!featureFound) {
+      setSelectedFeatureAttributes(null);
+      setSelectedFeature(null);
+    }
+  }, [isInspectModeActive, activeDrawTool, activeEditTool, activeMeasureTool, layers, toast]);
 
   useEffect(() => {
     if (mapRef.current) {
@@ -328,6 +623,7 @@ export default function GeoMapperClient() {
 
   const clearSelectedFeature = useCallback(() => {
     setSelectedFeatureAttributes(null);
+    setSelectedFeature(null);
     toast({ title: "Selección Limpiada", description: "Ninguna entidad seleccionada." });
   }, [toast]);
 
@@ -350,6 +646,70 @@ export default function GeoMapperClient() {
     }
   }, [layers, toast]);
 
+  const selectFeatureFromTable = useCallback((feature: OLFeature<any>) => {
+    setSelectedFeature(feature);
+    setSelectedFeatureAttributes(getFeatureAttributes(feature));
+    const geometry = feature.getGeometry();
+    if (mapRef.current && geometry) {
+      const extent: Extent = geometry.getExtent();
+      if (extent.every(isFinite)) {
+        mapRef.current.getView().fit(extent, { padding: [80, 80, ATTRIBUTE_TABLE_HEIGHT + 40, 80], duration: 500, maxZoom: 18 });
+      }
+    }
+  }, []);
+
+  const toggleAttributeTable = useCallback((layerId: string) => {
+    setAttributeTableLayerId(prev => (prev === layerId ? null : layerId));
+  }, []);
+
+  const attributeTableLayer = attributeTableLayerId ? layers.find(l => l.id === attributeTableLayerId) : undefined;
+
+  const getFieldSchema = useCallback((layerId: string): FieldDefinition[] => {
+    if (layerId === DRAWING_LAYER_ID) return drawingFieldSchema;
+    return layers.find(l => l.id === layerId)?.fieldSchema ?? [];
+  }, [drawingFieldSchema, layers]);
+
+  const updateFieldSchema = useCallback((layerId: string, fieldSchema: FieldDefinition[]) => {
+    if (layerId === DRAWING_LAYER_ID) {
+      setDrawingFieldSchema(fieldSchema);
+    } else {
+      setLayers(prev => prev.map(l => (l.id === layerId ? { ...l, fieldSchema } : l)));
+    }
+  }, []);
+
+  // Drawn features are always editable; features of other layers once their layer has a field schema.
+  const selectedFeatureSchema = React.useMemo((): FieldDefinition[] | null => {
+    if (!selectedFeature) return null;
+    if (drawingSourceRef.current?.hasFeature(selectedFeature)) return drawingFieldSchema;
+    const ownerLayer = layers.find(l => l.olLayer.getSource()?.hasFeature(selectedFeature));
+    return ownerLayer?.fieldSchema && ownerLayer.fieldSchema.length > 0 ? ownerLayer.fieldSchema : null;
+  }, [selectedFeature, drawingFieldSchema, layers]);
+
+  // Re-read along with the attributes, which refresh on the feature's property changes.
+  const selectedFeatureTrackSummary = React.useMemo(
+    () => selectedFeature ? getTrackSummary(selectedFeature.getGeometry()) : null,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [selectedFeature, selectedFeatureAttributes]
+  );
+
+  const updateSelectedFeatureAttributes = useCallback((values: Record<string, string | number | null>) => {
+    if (!selectedFeature) return;
+    const feature = selectedFeature;
+    const previousValues = Object.fromEntries(Object.keys(values).map(key => [key, feature.get(key) ?? null]));
+    const applyValues = (newValues: Record<string, any>) => {
+      feature.setProperties(newValues);
+      // Property changes don't mark the feature as changed; this refreshes the attribute table and autosave.
+      feature.changed();
+    };
+    applyValues(values);
+    pushHistory({
+      label: 'Editar atributos',
+      undo: () => applyValues(previousValues),
+      redo: () => applyValues(values),
+    });
+    toast({ title: "Atributos Actualizados", description: "Los cambios se incluirán en las exportaciones." });
+  }, [selectedFeature, pushHistory, toast]);
+
   const toggleToolsPanelCollapse = useCallback(() => setIsToolsPanelCollapsed(prev => !prev), []);
   const toggleLayersPanelCollapse = useCallback(() => setIsLayersPanelCollapsed(prev => !prev), []);
 
@@ -528,10 +888,10 @@ export default function GeoMapperClient() {
             const vectorSource = new VectorSource({ features: olFeatures });
             const vectorLayer = new VectorLayer({
               source: vectorSource,
-              style: category.style
+              style: createOLStyle(category.style)
             });
             const layerId = `osm-${category.id}-${Date.now()}`;
-            addLayer({ id: layerId, name: `${category.name} (${olFeatures.length})`, olLayer: vectorLayer, visible: true });
+            addLayer({ id: layerId, name: `${category.name} (${olFeatures.length})`, olLayer: vectorLayer, visible: true, style: category.style });
             featuresAddedCount += olFeatures.length;
           }
         }
@@ -552,31 +912,79 @@ export default function GeoMapperClient() {
   }, [toast, addLayer]);
 
 
-  const toggleDrawingTool = useCallback((toolType: 'Polygon' | 'LineString' | 'Point') => {
+  // Snap interactions must be added after the interactions they assist, so they are created last.
+  // The same array while the visible sources stay the same, so renaming or restyling a layer
+  // doesn't rebuild the interactions that snap to them.
+  const snapSourcesRef = useRef<VectorSourceType<OLFeature<any>>[]>([]);
+  const snapSources = React.useMemo(() => {
+    const sources = layers
+      .filter(layer => layer.visible)
+      .map(layer => layer.olLayer.getSource())
+      .filter((source): source is VectorSourceType<OLFeature<any>> => !!source);
+    const previous = snapSourcesRef.current;
+    if (sources.length === previous.length && sources.every((source, i) => source === previous[i])) return previous;
+    snapSourcesRef.current = sources;
+    return sources;
+  }, [layers]);
+
+  const createSnapInteractions = useCallback((): Snap[] => {
+    const sources = [...snapSources];
+    if (drawingSourceRef.current) sources.push(drawingSourceRef.current);
+    return sources.map(source => new Snap({ source }));
+  }, [snapSources]);
+
+  const removeDrawSnapInteractions = useCallback(() => {
+    drawSnapInteractionsRef.current.forEach(snap => {
+      mapRef.current?.removeInteraction(snap);
+      snap.dispose();
+    });
+    drawSnapInteractionsRef.current = [];
+  }, []);
+
+  const toggleDrawingTool = useCallback((toolType: DrawTool) => {
     if (!mapRef.current || !drawingSourceRef.current) return;
     if (isInspectModeActive) setIsInspectModeActive(false); 
+    setActiveEditTool(null);
+    stopMeasureTool();
 
     if (drawInteractionRef.current) {
       mapRef.current.removeInteraction(drawInteractionRef.current);
       drawInteractionRef.current.dispose(); 
       drawInteractionRef.current = null;
     }
+    removeDrawSnapInteractions();
 
     if (activeDrawTool === toolType) {
       setActiveDrawTool(null); 
     } else {
       const newDrawInteraction = new Draw({
         source: drawingSourceRef.current,
-        type: toolType,
+        ...getDrawOptions(toolType),
       });
-      newDrawInteraction.on('drawend', () => {
-        // No longer automatically fetching OSM data here
+      const drawingSource = drawingSourceRef.current;
+      newDrawInteraction.on('drawend', (event) => {
+        const drawnFeature = event.feature as OLFeature<any>;
+        // GeoJSON, KML and Shapefile have no circle geometry, so circles are stored as polygons.
+        // drawend fires before the feature is added to the source.
+        const drawnGeometry = drawnFeature.getGeometry();
+        if (drawnGeometry?.getType() === 'Circle') {
+          drawnFeature.setGeometry(fromCircle(drawnGeometry as CircleGeometry, CIRCLE_POLYGON_SIDES));
+        }
+        pushHistory({
+          label: 'Dibujar entidad',
+          undo: () => removeFeatureIfPresent(drawingSource, drawnFeature),
+          redo: () => addFeatureIfMissing(drawingSource, drawnFeature),
+        });
       });
       mapRef.current.addInteraction(newDrawInteraction);
       drawInteractionRef.current = newDrawInteraction;
+      if (isSnapEnabled) {
+        drawSnapInteractionsRef.current = createSnapInteractions();
+        drawSnapInteractionsRef.current.forEach(snap => mapRef.current?.addInteraction(snap));
+      }
       setActiveDrawTool(toolType);
     }
-  }, [activeDrawTool, isInspectModeActive]);
+  }, [activeDrawTool, isInspectModeActive, isSnapEnabled, createSnapInteractions, removeDrawSnapInteractions, stopMeasureTool, pushHistory]);
 
   const stopDrawingTool = useCallback(() => {
     if (mapRef.current && drawInteractionRef.current) {
@@ -584,142 +992,254 @@ export default function GeoMapperClient() {
       drawInteractionRef.current.dispose();
       drawInteractionRef.current = null;
     }
+    removeDrawSnapInteractions();
     setActiveDrawTool(null);
-  }, []);
-
-  const clearDrawnFeatures = useCallback(() => {
-    if (drawingSourceRef.current) {
-      drawingSourceRef.current.clear();
-      toast({ title: "Dibujos Limpiados", description: "Todos los dibujos han sido eliminados." });
+  }, [removeDrawSnapInteractions]);
+
+  const addCoordinateFeatures = useCallback((geometryType: CoordinateGeometryType, lonLatCoordinates: number[][]) => {
+    const drawingSource = drawingSourceRef.current;
+    if (!drawingSource || !mapRef.current) return;
+    const coordinates = lonLatCoordinates.map(coordinate => fromLonLat(coordinate));
+    let newFeatures: OLFeature<any>[];
+    if (geometryType === 'Point') {
+      newFeatures = coordinates.map(coordinate => new Feature({ geometry: new Point(coordinate) }));
+    } else if (geometryType === 'LineString') {
+      newFeatures = [new Feature({ geometry: new LineString(coordinates) })];
+    } else {
+      const ring = [...coordinates, coordinates[0]];
+      newFeatures = [new Feature({ geometry: new Polygon([ring]) })];
     }
-  }, [toast]);
+    drawingSource.addFeatures(newFeatures);
+    pushHistory({
+      label: 'Agregar por coordenadas',
+      undo: () => newFeatures.forEach(feature => removeFeatureIfPresent(drawingSource, feature)),
+      redo: () => newFeatures.forEach(feature => addFeatureIfMissing(drawingSource, feature)),
+    });
 
-  const saveDrawnFeaturesAsKML = useCallback(() => {
-    if (!drawingSourceRef.current || drawingSourceRef.current.getFeatures().length === 0) {
-      toast({ title: "Sin Dibujos", description: "Nada dibujado para guardar.", variant: "destructive" });
+    mapRef.current.getView().fit(boundingExtent(coordinates), { padding: [80, 80, 80, 80], duration: 500, maxZoom: 16 });
+    toast({ title: "Coordenadas Agregadas", description: `${newFeatures.length} entidad(es) agregada(s) a los dibujos.` });
+  }, [pushHistory, toast]);
+
+  const toggleEditTool = useCallback((tool: EditTool) => {
+    if (activeEditTool === tool) {
+      setActiveEditTool(null);
       return;
     }
-    const features = drawingSourceRef.current.getFeatures();
-    const kmlFormat = new KML();
-    try {
-      const kmlString = kmlFormat.writeFeatures(features, {
-        dataProjection: 'EPSG:4326',
-        featureProjection: 'EPSG:3857',
-      });
-      triggerDownload(kmlString, 'drawings.kml', 'application/vnd.google-earth.kml+xml;charset=utf-8');
-      toast({ title: "Dibujos Guardados", description: "Dibujos guardados como drawings.kml." });
-    } catch (error) {
-      console.error("Error guardando KML:", error);
-      toast({ title: "Error Guardando KML", description: "No se pudieron guardar los dibujos.", variant: "destructive" });
+    stopDrawingTool();
+    stopMeasureTool();
+    setIsInspectModeActive(false);
+    setActiveEditTool(tool);
+  }, [activeEditTool, stopDrawingTool, stopMeasureTool]);
+
+  const handleToggleMeasureTool = useCallback((tool: MeasureTool) => {
+    stopDrawingTool();
+    setActiveEditTool(null);
+    setIsInspectModeActive(false);
+    toggleMeasureTool(tool);
+  }, [stopDrawingTool, toggleMeasureTool]);
+
+  const keepMeasurements = useCallback(() => {
+    const drawingSource = drawingSourceRef.current;
+    if (!drawingSource) return;
+    const keptFeatures = takeMeasurements();
+    if (keptFeatures.length === 0) return;
+    keptFeatures.forEach(feature => {
+      if (!feature.get('name')) feature.set('name', feature.getGeometry()?.getType() === 'Polygon' ? 'Medición de área' : 'Medición de distancia');
+    });
+    drawingSource.addFeatures(keptFeatures);
+    pushHistory({
+      label: 'Conservar mediciones',
+      undo: () => keptFeatures.forEach(feature => removeFeatureIfPresent(drawingSource, feature)),
+      redo: () => keptFeatures.forEach(feature => addFeatureIfMissing(drawingSource, feature)),
+    });
+    toast({ title: "Mediciones Conservadas", description: `${keptFeatures.length} medición(es) agregada(s) a los dibujos.` });
+  }, [takeMeasurements, pushHistory, toast]);
+
+  useEffect(() => {
+    if (editTargetLayerId !== DRAWING_LAYER_ID && !layers.some(l => l.id === editTargetLayerId)) {
+      setEditTargetLayerId(DRAWING_LAYER_ID);
     }
-  }, [toast]);
+  }, [layers, editTargetLayerId]);
 
-  const handleDownloadOSMLayers = useCallback(async () => {
-    setIsDownloading(true);
-    toast({ title: "Procesando descarga...", description: `Formato: ${downloadFormat.toUpperCase()}` });
+  // Only a different target layer rebuilds the edit interactions, which would drop the selection;
+  // other changes to the layer list (visibility, opacity, names) leave them alone.
+  const editTargetOLLayer = React.useMemo(
+    () => layers.find(l => l.id === editTargetLayerId)?.olLayer ?? null,
+    [layers, editTargetLayerId]
+  );
 
-    const osmLayers = layers.filter(layer => layer.id.startsWith('osm-'));
-    if (osmLayers.length === 0) {
-      toast({ title: "Sin Capas OSM", description: "No hay capas OSM para descargar.", variant: "destructive" });
-      setIsDownloading(false);
-      return;
+  useEffect(() => {
+    const currentMap = mapRef.current;
+    if (!currentMap || !activeEditTool) return;
+
+    const targetLayer = editTargetLayerId === DRAWING_LAYER_ID ? drawingLayerRef.current : editTargetOLLayer;
+    const targetSource = targetLayer?.getSource();
+    if (!targetLayer || !targetSource) return;
+
+    const interactions: Interaction[] = [];
+    if (activeEditTool === 'modify' || activeEditTool === 'translate') {
+      const interaction = activeEditTool === 'modify'
+        ? new Modify({ source: targetSource })
+        : new Translate({ layers: [targetLayer] });
+      let geometriesBefore = new Map<OLFeature<any>, Geometry | undefined>();
+      const handleStart = (event: any) => {
+        geometriesBefore = captureGeometries(event.features.getArray());
+      };
+      const handleEnd = (event: any) => {
+        const before = geometriesBefore;
+        const after = captureGeometries(event.features.getArray());
+        pushHistory({
+          label: activeEditTool === 'modify' ? 'Editar vértices' : 'Mover entidad',
+          undo: () => restoreGeometries(before),
+          redo: () => restoreGeometries(after),
+        });
+      };
+      if (interaction instanceof Modify) {
+        interaction.on('modifystart', handleStart);
+        interaction.on('modifyend', handleEnd);
+      } else {
+        interaction.on('translatestart', handleStart);
+        interaction.on('translateend', handleEnd);
+      }
+      interactions.push(interaction);
+    } else {
+      const select = new Select({ layers: [targetLayer], condition: click, style: highlightStyle });
+      select.on('select', (event) => {
+        const deletedFeatures = event.selected as OLFeature<any>[];
+        deletedFeatures.forEach(feature => targetSource.removeFeature(feature));
+        select.getFeatures().clear();
+        if (deletedFeatures.length > 0) {
+          pushHistory({
+            label: 'Eliminar entidad',
+            undo: () => deletedFeatures.forEach(feature => addFeatureIfMissing(targetSource, feature)),
+            redo: () => deletedFeatures.forEach(feature => removeFeatureIfPresent(targetSource, feature)),
+          });
+        }
+      });
+      interactions.push(select);
     }
 
-    try {
-      if (downloadFormat === 'geojson') {
-        const allFeatures: OLFeature<any>[] = [];
-        osmLayers.forEach(layer => {
-          const source = layer.olLayer.getSource();
-          if (source) {
-            allFeatures.push(...source.getFeatures());
-          }
-        });
-        if (allFeatures.length === 0) throw new Error("No hay entidades en las capas OSM seleccionadas.");
-        const geojsonString = new GeoJSON().writeFeatures(allFeatures, {
-          dataProjection: 'EPSG:4326',
-          featureProjection: 'EPSG:3857',
-          featureProperties: (feature: OLFeature<any>) => { 
-            const props = { ...feature.getProperties() };
-            delete props[feature.getGeometryName() as string]; 
-            return props;
-          }
-        });
-        triggerDownload(geojsonString, 'osm_data.geojson', 'application/geo+json;charset=utf-8');
-        toast({ title: "Descarga Completa", description: "Entidades OSM descargadas como GeoJSON." });
-
-      } else if (downloadFormat === 'kml') {
-        const allFeatures: OLFeature<any>[] = [];
-        osmLayers.forEach(layer => {
-          const source = layer.olLayer.getSource();
-          if (source) {
-            allFeatures.push(...source.getFeatures());
-          }
-        });
-        if (allFeatures.length === 0) throw new Error("No hay entidades en las capas OSM seleccionadas.");
-        const kmlString = new KML().writeFeatures(allFeatures, {
-          dataProjection: 'EPSG:4326',
-          featureProjection: 'EPSG:3857'
-        });
-        triggerDownload(kmlString, 'osm_data.kml', 'application/vnd.google-earth.kml+xml;charset=utf-8');
-        toast({ title: "Descarga Completa", description: "Entidades OSM descargadas como KML." });
-
-      } else if (downloadFormat === 'shp') {
-        const geoJsonDataPerLayer: { [key: string]: any } = {};
-        let featuresFound = false;
-
-        osmLayers.forEach(layer => {
-          const source = layer.olLayer.getSource();
-          const layerFeatures = source ? source.getFeatures() : [];
-          if (layerFeatures.length > 0) {
-            featuresFound = true;
-            const featureCollection = new GeoJSON().writeFeaturesObject(layerFeatures, {
-              dataProjection: 'EPSG:4326',
-              featureProjection: 'EPSG:3857',
-              featureProperties: (feature: OLFeature<any>) => {
-                const props = { ...feature.getProperties() };
-                delete props[feature.getGeometryName() as string];
-                const sanitizedProps: Record<string, any> = {};
-                for (const key in props) {
-                    let sanitizedKey = key.replace(/[^a-zA-Z0-9_]/g, '').substring(0, 10);
-                    if(sanitizedKey.length === 0) sanitizedKey = `prop${Object.keys(sanitizedProps).length}`; 
-                    
-                    let counter = 0;
-                    let finalKey = sanitizedKey;
-                    while(finalKey in sanitizedProps) {
-                        counter++;
-                        finalKey = `${sanitizedKey.substring(0, 10 - String(counter).length)}${counter}`;
-                    }
-                    sanitizedProps[finalKey] = props[key];
-                }
-                return sanitizedProps;
-              }
-            });
-            const fileName = layer.name.replace(/[^a-zA-Z0-9_]/g, '_').replace(/\s+/g, '_');
-            geoJsonDataPerLayer[fileName] = featureCollection;
-          }
+    interactions.forEach(interaction => currentMap.addInteraction(interaction));
+
+    return () => {
+      interactions.forEach(interaction => {
+        currentMap.removeInteraction(interaction);
+        interaction.dispose();
+      });
+    };
+  }, [activeEditTool, editTargetLayerId, editTargetOLLayer, pushHistory]);
+
+  // Snapping while editing, kept apart so showing or hiding a layer to snap to doesn't rebuild the
+  // edit interactions. Effects run in order, so the snaps are added after them, as Snap requires.
+  useEffect(() => {
+    const currentMap = mapRef.current;
+    if (!currentMap || !activeEditTool || activeEditTool === 'delete' || !isSnapEnabled) return;
+    const snaps = createSnapInteractions();
+    snaps.forEach(snap => currentMap.addInteraction(snap));
+    return () => {
+      snaps.forEach(snap => {
+        currentMap.removeInteraction(snap);
+        snap.dispose();
+      });
+    };
+  }, [activeEditTool, editTargetLayerId, editTargetOLLayer, isSnapEnabled, createSnapInteractions]);
+
+  const clearDrawnFeatures = useCallback(() => {
+    const drawingSource = drawingSourceRef.current;
+    if (drawingSource) {
+      const clearedFeatures = drawingSource.getFeatures();
+      drawingSource.clear();
+      if (clearedFeatures.length > 0) {
+        pushHistory({
+          label: 'Limpiar dibujos',
+          undo: () => clearedFeatures.forEach(feature => addFeatureIfMissing(drawingSource, feature)),
+          redo: () => clearedFeatures.forEach(feature => removeFeatureIfPresent(drawingSource, feature)),
         });
+      }
+      toast({ title: "Dibujos Limpiados", description: "Todos los dibujos han sido eliminados (Ctrl+Z para deshacer)." });
+    }
+  }, [pushHistory, toast]);
 
-        if (!featuresFound) throw new Error("No hay entidades en las capas OSM para exportar como Shapefile.");
-        
-        const zipContentBase64 = await shpwrite.zip(geoJsonDataPerLayer);
-        
-        const byteString = atob(zipContentBase64);
-        const arrayBuffer = new ArrayBuffer(byteString.length);
-        const uint8Array = new Uint8Array(arrayBuffer);
-        for (let i = 0; i < byteString.length; i++) {
-          uint8Array[i] = byteString.charCodeAt(i);
-        }
-        triggerDownloadArrayBuffer(arrayBuffer, 'osm_shapefiles.zip', 'application/zip');
-        toast({ title: "Descarga Completa", description: "Entidades OSM descargadas como Shapefile (ZIP)." });
+  const handleUndo = useCallback(() => {
+    const command = undoHistory();
+    if (command) toast({ title: "Deshacer", description: command.label });
+  }, [undoHistory, toast]);
+
+  const handleRedo = useCallback(() => {
+    const command = redoHistory();
+    if (command) toast({ title: "Rehacer", description: command.label });
+  }, [redoHistory, toast]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        handleRedo();
       }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const getExportFeatures = useCallback((layerId: string): OLFeature<any>[] => {
+    if (layerId === DRAWING_LAYER_ID) {
+      return createExportFeatures(drawingSourceRef.current?.getFeatures() ?? [], drawingFieldSchema);
+    }
+    const layer = layers.find(l => l.id === layerId);
+    const features = layer?.olLayer.getSource()?.getFeatures() ?? [];
+    return layer?.fieldSchema ? createExportFeatures(features, layer.fieldSchema) : features;
+  }, [layers, drawingFieldSchema]);
+
+  const downloadExportFile = (file: ExportFile) => {
+    if (typeof file.content === 'string') triggerDownload(file.content, file.fileName, file.contentType);
+    else triggerDownloadArrayBuffer(file.content, file.fileName, file.contentType);
+  };
 
+  const exportDrawnFeatures = useCallback(async (format: string, projection: string) => {
+    const features = getExportFeatures(DRAWING_LAYER_ID);
+    if (features.length === 0) {
+      toast({ title: "Sin Dibujos", description: "Nada dibujado para guardar.", variant: "destructive" });
+      return;
+    }
+    try {
+      downloadExportFile(await buildLayerExport(
+        [{ name: 'drawings', features }],
+        { format: format as ExportFormat, projection, merge: true, fileName: 'drawings' }
+      ));
+      toast({ title: "Dibujos Guardados", description: `Dibujos guardados como ${format === 'shp' ? 'Shapefile (ZIP)' : format.toUpperCase()}.` });
+    } catch (error: any) {
+      console.error("Error guardando dibujos:", error);
+      toast({ title: "Error Guardando Dibujos", description: error.message || "No se pudieron guardar los dibujos.", variant: "destructive" });
+    }
+  }, [getExportFeatures, toast]);
+
+  /** Resolves to whether the export was downloaded. */
+  const exportLayers = useCallback(async (request: LayerExportRequest): Promise<boolean> => {
+    setIsDownloading(true);
+    try {
+      const exportLayerInputs = request.layerIds.map(layerId => ({
+        name: layerId === DRAWING_LAYER_ID ? 'Dibujos' : layers.find(l => l.id === layerId)?.name ?? layerId,
+        features: getExportFeatures(layerId),
+      }));
+      const file = await buildLayerExport(exportLayerInputs, request);
+      downloadExportFile(file);
+      toast({ title: "Exportación Completa", description: `${file.fileName} descargado.` });
+      return true;
     } catch (error: any) {
-      console.error("Error descargando capas OSM:", error);
-      toast({ title: "Error de Descarga", description: error.message || "No se pudieron descargar las capas.", variant: "destructive" });
+      console.error("Error exportando capas:", error);
+      toast({ title: "Error de Exportación", description: error.message || "No se pudieron exportar las capas.", variant: "destructive" });
+      return false;
     } finally {
       setIsDownloading(false);
     }
-  }, [layers, downloadFormat, toast]);
+  }, [layers, getExportFeatures, toast]);
 
   const handleChangeBaseLayer = useCallback((newBaseLayerId: string) => {
     if (mapRef.current) {
@@ -732,6 +1252,273 @@ export default function GeoMapperClient() {
     }
   }, []);
 
+  const projectFileInputRef = useRef<HTMLInputElement>(null);
+  // Layer visibility from a shared link, applied to the first project or session restored with its layers.
+  const urlVisibleLayerNamesRef = useRef<string[] | null>(null);
+
+  useEffect(() => {
+    const urlState = readUrlState();
+    if (urlState.baseLayerId && BASE_LAYER_DEFINITIONS.some(def => def.id === urlState.baseLayerId)) {
+      handleChangeBaseLayer(urlState.baseLayerId);
+    }
+    if (urlState.visibleLayerNames) urlVisibleLayerNamesRef.current = urlState.visibleLayerNames;
+  }, [handleChangeBaseLayer]);
+
+  const updateUrlState = useCallback(() => {
+    if (!mapRef.current) return;
+    const view = mapRef.current.getView();
+    const center = view.getCenter();
+    const zoom = view.getZoom();
+    if (!center || zoom === undefined) return;
+    const [lon, lat] = toLonLat(center, 'EPSG:3857');
+    writeUrlState({
+      center: [lon, lat],
+      zoom,
+      baseLayerId: activeBaseLayerId,
+      // Until there are layers, the visibility of the link that opened the page is kept.
+      visibleLayerNames: layers.length > 0 ? layers.filter(l => l.visible).map(l => l.name) : urlVisibleLayerNamesRef.current ?? undefined,
+    });
+  }, [activeBaseLayerId, layers]);
+
+  useEffect(() => {
+    const currentMap = mapRef.current;
+    if (!currentMap) return;
+    updateUrlState();
+    currentMap.on('moveend', updateUrlState);
+    return () => currentMap.un('moveend', updateUrlState);
+  }, [updateUrlState]);
+
+  const buildProjectFile = useCallback(async (): Promise<ProjectFile | null> => {
+    if (!mapRef.current) return null;
+    const view = mapRef.current.getView();
+    return createProjectFile({
+      layers,
+      drawingFeatures: drawingSourceRef.current ? drawingSourceRef.current.getFeatures() : [],
+      drawingFieldSchema,
+      baseLayerId: activeBaseLayerId,
+      viewCenter: view.getCenter() ?? [0, 0],
+      viewZoom: view.getZoom() ?? 7,
+      selectedOSMCategoryIds,
+    });
+  }, [layers, drawingFieldSchema, activeBaseLayerId, selectedOSMCategoryIds]);
+
+  const saveProject = useCallback(async () => {
+    try {
+      const project = await buildProjectFile();
+      if (!project) return;
+      const fileName = `proyecto_${new Date().toISOString().slice(0, 10)}${PROJECT_FILE_EXTENSION}`;
+      triggerDownload(JSON.stringify(project), fileName, 'application/json;charset=utf-8');
+      toast({ title: "Proyecto Guardado", description: `Sesión guardada como ${fileName}.` });
+    } catch (error: any) {
+      console.error("Error guardando proyecto:", error);
+      toast({ title: "Error Guardando Proyecto", description: error.message || "No se pudo guardar el proyecto.", variant: "destructive" });
+    }
+  }, [buildProjectFile, toast]);
+
+  const restoreProject = useCallback((project: ProjectFile) => {
+    if (!mapRef.current) return;
+
+    setSelectedFeature(null);
+    setSelectedFeatureAttributes(null);
+    setAttributeTableLayerId(null);
+    clearHistory();
+    revokeUnusedObjectUrls(layersRef.current, []);
+    // A link names layers rather than listing their ids, which are made anew in each session;
+    // its visibility applies only when every layer it names is restored here.
+    const urlVisibleLayerNames = urlVisibleLayerNamesRef.current;
+    const appliesUrlVisibility = !!urlVisibleLayerNames && project.layers.length > 0 &&
+      urlVisibleLayerNames.every(name => project.layers.some(projectLayer => projectLayer.name === name));
+    if (appliesUrlVisibility) urlVisibleLayerNamesRef.current = null;
+    setLayers(project.layers.map(projectLayer => {
+      const mapLayer = createMapLayerFromProject(projectLayer);
+      return appliesUrlVisibility ? { ...mapLayer, visible: urlVisibleLayerNames!.includes(mapLayer.name) } : mapLayer;
+    }));
+
+    if (drawingSourceRef.current) {
+      drawingSourceRef.current.clear();
+      drawingSourceRef.current.addFeatures(readFeatureCollection(project.drawings));
+    }
+    setDrawingFieldSchema(project.drawingFieldSchema ?? []);
+
+    if (BASE_LAYER_DEFINITIONS.some(def => def.id === project.baseLayerId)) {
+      handleChangeBaseLayer(project.baseLayerId);
+    }
+    setSelectedOSMCategoryIds(project.selectedOSMCategoryIds.filter(id => osmCategoryConfig.some(cat => cat.id === id)));
+
+    const view = mapRef.current.getView();
+    view.setCenter(getProjectViewCenter(project));
+    view.setZoom(project.view.zoom);
+  }, [handleChangeBaseLayer, clearHistory]);
+
+  const handleProjectFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const project = parseProjectFile(await file.text());
+      restoreProject(project);
+      // Its layers may reuse the ids of stored ones with other features.
+      storedFeatureKeysRef.current.clear();
+      toast({ title: "Proyecto Abierto", description: `${file.name}: ${project.layers.length} capa(s) restaurada(s).` });
+    } catch (error: any) {
+      console.error("Error abriendo proyecto:", error);
+      toast({ title: "Error Abriendo Proyecto", description: error.message || "No se pudo abrir el proyecto.", variant: "destructive" });
+    }
+  }, [restoreProject, toast]);
+
+  // Session autosave: changes schedule a debounced write to IndexedDB. The view, panels and layer
+  // settings go in one small record; features are re-serialized only for the layers whose source
+  // changed since they were last stored. Nothing is written until the user has decided whether
+  // to restore a previously stored session.
+  const [pendingSession, setPendingSession] = useState<StoredSession | null>(null);
+  const sessionRestoreResolvedRef = useRef(false);
+  const sessionSaveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const persistSessionRef = useRef<() => void>(() => {});
+  // Feature records already in IndexedDB (layer ids and DRAWINGS_FEATURES_KEY) and those that changed since.
+  const storedFeatureKeysRef = useRef(new Set<string>());
+  const changedFeatureKeysRef = useRef(new Set<string>());
+  const isSessionSavingRef = useRef(false);
+
+  const scheduleSessionSave = useCallback(() => {
+    if (sessionSaveTimeoutRef.current) clearTimeout(sessionSaveTimeoutRef.current);
+    sessionSaveTimeoutRef.current = setTimeout(() => {
+      sessionSaveTimeoutRef.current = null;
+      persistSessionRef.current();
+    }, SESSION_SAVE_DEBOUNCE_MS);
+  }, []);
+
+  useEffect(() => {
+    persistSessionRef.current = async () => {
+      if (!sessionRestoreResolvedRef.current || !mapRef.current) return;
+      // A slow save of a large layer must not be overtaken by the next one.
+      if (isSessionSavingRef.current) {
+        scheduleSessionSave();
+        return;
+      }
+      isSessionSavingRef.current = true;
+      const view = mapRef.current.getView();
+      const state: StoredSessionState = {
+        savedAt: new Date().toISOString(),
+        baseLayerId: activeBaseLayerId,
+        view: createProjectViewState(view.getCenter() ?? [0, 0], view.getZoom() ?? 7),
+        selectedOSMCategoryIds,
+        layers: layers.map(createProjectLayerInfo),
+        drawingFieldSchema,
+        panels: { tools: toolsPanelPosition, layers: layersPanelPosition },
+      };
+      const storedKeys = storedFeatureKeysRef.current;
+      const changedKeys = changedFeatureKeysRef.current;
+      const writtenKeys: string[] = [];
+      try {
+        const features: [string, ProjectLayerFeatures][] = [];
+        for (const layer of layers) {
+          if (storedKeys.has(layer.id) && !changedKeys.has(layer.id)) continue;
+          changedKeys.delete(layer.id);
+          writtenKeys.push(layer.id);
+          features.push([layer.id, await writeLayerFeatures(layer.olLayer.getSource()?.getFeatures() ?? [])]);
+        }
+        if (!storedKeys.has(DRAWINGS_FEATURES_KEY) || changedKeys.has(DRAWINGS_FEATURES_KEY)) {
+          changedKeys.delete(DRAWINGS_FEATURES_KEY);
+          writtenKeys.push(DRAWINGS_FEATURES_KEY);
+          features.push([DRAWINGS_FEATURES_KEY, { features: writeFeatureCollection(drawingSourceRef.current?.getFeatures() ?? []) }]);
+        }
+        await saveSession(state, features);
+        const layerIds = new Set(layers.map(layer => layer.id));
+        storedKeys.forEach(key => {
+          if (key !== DRAWINGS_FEATURES_KEY && !layerIds.has(key)) storedKeys.delete(key);
+        });
+        writtenKeys.forEach(key => storedKeys.add(key));
+      } catch (error) {
+        console.error("Error guardando sesión en IndexedDB:", error);
+        writtenKeys.forEach(key => changedKeys.add(key));
+      } finally {
+        isSessionSavingRef.current = false;
+      }
+    };
+  }, [layers, drawingFieldSchema, activeBaseLayerId, selectedOSMCategoryIds, toolsPanelPosition, layersPanelPosition, scheduleSessionSave]);
+
+  useEffect(() => {
+    scheduleSessionSave();
+  }, [layers, drawingFieldSchema, activeBaseLayerId, selectedOSMCategoryIds, toolsPanelPosition, layersPanelPosition, scheduleSessionSave]);
+
+  useEffect(() => {
+    const sourceKeys: [VectorSourceType<OLFeature<any>>, string][] = [];
+    layers.forEach(layer => {
+      const source = layer.olLayer.getSource();
+      if (source) sourceKeys.push([source, layer.id]);
+    });
+    if (drawingSourceRef.current) sourceKeys.push([drawingSourceRef.current, DRAWINGS_FEATURES_KEY]);
+    const listeners = sourceKeys.map(([source, key]) => {
+      const onChange = () => {
+        changedFeatureKeysRef.current.add(key);
+        scheduleSessionSave();
+      };
+      source.on('change', onChange);
+      return () => source.un('change', onChange);
+    });
+    return () => listeners.forEach(removeListener => removeListener());
+  }, [layers, scheduleSessionSave]);
+
+  useEffect(() => {
+    const currentMap = mapRef.current;
+    if (!currentMap) return;
+    currentMap.on('moveend', scheduleSessionSave);
+    return () => currentMap.un('moveend', scheduleSessionSave);
+  }, [scheduleSessionSave]);
+
+  useEffect(() => {
+    const flushSessionSave = () => {
+      if (!sessionSaveTimeoutRef.current) return;
+      clearTimeout(sessionSaveTimeoutRef.current);
+      sessionSaveTimeoutRef.current = null;
+      persistSessionRef.current();
+    };
+    window.addEventListener('pagehide', flushSessionSave);
+    return () => {
+      window.removeEventListener('pagehide', flushSessionSave);
+      if (sessionSaveTimeoutRef.current) clearTimeout(sessionSaveTimeoutRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    loadSession()
+      .then(session => {
+        if (hasSessionContent(session)) {
+          setPendingSession(session);
+        } else {
+          sessionRestoreResolvedRef.current = true;
+        }
+      })
+      .catch(error => {
+        console.error("Error leyendo sesión de IndexedDB:", error);
+        sessionRestoreResolvedRef.current = true;
+      });
+  }, []);
+
+  const handleRestoreSession = useCallback(() => {
+    if (!pendingSession) return;
+    try {
+      restoreProject(pendingSession.project);
+      // The restored layers are what IndexedDB already holds.
+      storedFeatureKeysRef.current = new Set([DRAWINGS_FEATURES_KEY, ...pendingSession.project.layers.map(layer => layer.id)]);
+      changedFeatureKeysRef.current.clear();
+      setToolsPanelPosition(pendingSession.panels.tools);
+      setLayersPanelPosition(pendingSession.panels.layers);
+      toast({ title: "Sesión Restaurada", description: `${pendingSession.project.layers.length} capa(s) recuperada(s).` });
+    } catch (error: any) {
+      console.error("Error restaurando sesión:", error);
+      toast({ title: "Error Restaurando Sesión", description: error.message || "No se pudo restaurar la sesión.", variant: "destructive" });
+    }
+    sessionRestoreResolvedRef.current = true;
+    setPendingSession(null);
+  }, [pendingSession, restoreProject, toast]);
+
+  const handleDiscardSession = useCallback(() => {
+    clearSession().catch(error => console.error("Error borrando sesión de IndexedDB:", error));
+    sessionRestoreResolvedRef.current = true;
+    setPendingSession(null);
+  }, []);
+
   const layersPanelRenderConfig = { 
     baseLayers: true,
     layers: true 
@@ -748,9 +1535,24 @@ export default function GeoMapperClient() {
       <header className="bg-gray-800/60 backdrop-blur-md text-white p-4 shadow-md flex items-center">
         <svg xmlns="http://www.w3.org/2000/svg" width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="mr-3"><path d="M12 22s-8-4.5-8-11.8A8 8 0 0 1 12 2a8 8 0 0 1 8 8.2c0 7.3-8 11.8-8 11.8z"/><circle cx="12" cy="10" r="3"/></svg>
         <h1 className="text-2xl font-semibold">Visor DEAS</h1>
+        <div className="ml-auto flex items-center gap-2">
+          <input
+            ref={projectFileInputRef}
+            type="file"
+            accept={`${PROJECT_FILE_EXTENSION},.json`}
+            onChange={handleProjectFileChange}
+            className="hidden"
+          />
+          <Button variant="ghost" onClick={() => projectFileInputRef.current?.click()} className="h-8 text-xs text-white hover:bg-gray-600/80" title="Abrir proyecto">
+            <FolderOpen className="mr-2 h-4 w-4" /> Abrir proyecto
+          </Button>
+          <Button variant="ghost" onClick={saveProject} className="h-8 text-xs text-white hover:bg-gray-600/80" title="Guardar proyecto">
+            <Save className="mr-2 h-4 w-4" /> Guardar proyecto
+          </Button>
+        </div>
       </header>
       <div ref={mapAreaRef} className="relative flex-1 overflow-hidden">
-        <MapView mapRef={mapRef} setMapInstance={setMapInstance} />
+        <MapView mapRef={mapRef} setMapInstance={setMapInstance} onDropFiles={importFiles} />
 
         {/* Layers Panel (Left) */}
         <div
@@ -784,7 +1586,16 @@ export default function GeoMapperClient() {
                   onToggleLayerVisibility={toggleLayerVisibility}
                   onRemoveLayer={removeLayer}
                   onZoomToLayerExtent={zoomToLayerExtent}
-                  onAddLayer={addLayer}
+                  onShowAttributeTable={toggleAttributeTable}
+                  onUpdateLayerStyle={updateLayerStyle}
+                  onReorderLayer={reorderLayer}
+                  onUpdateLayerProperties={updateLayerProperties}
+                  attributeTableLayerId={attributeTableLayerId}
+                  onImportFiles={importFiles}
+                  onCancelImport={cancelImport}
+                  isImporting={isImporting}
+                  importReports={importReports}
+                  onClearImportReports={clearImportReports}
                   // Props not relevant to layers panel, pass defaults or empty functions
                   isInspectModeActive={false} 
                   onToggleInspectMode={() => {}} 
@@ -794,15 +1605,13 @@ export default function GeoMapperClient() {
                   onToggleDrawingTool={() => {}} 
                   onStopDrawingTool={() => {}} 
                   onClearDrawnFeatures={() => {}} 
-                  onSaveDrawnFeaturesAsKML={() => {}} 
+                  onExportDrawnFeatures={() => {}} 
                   isFetchingOSM={false} 
                   onFetchOSMDataTrigger={() => {}} 
                   osmCategoriesForSelection={[]} 
                   selectedOSMCategoryIds={[]} 
                   onSelectedOSMCategoriesChange={() => {}} 
-                  downloadFormat={downloadFormat} 
-                  onDownloadFormatChange={() => {}} 
-                  onDownloadOSMLayers={() => {}} 
+                  onExportLayers={async () => false} 
                   isDownloading={false} 
               />
             </div>
@@ -834,24 +1643,46 @@ export default function GeoMapperClient() {
             <div className="flex-1 min-h-0 bg-transparent" style={{ maxHeight: 'calc(100vh - 120px)', overflowY: 'auto' }}>
               <MapControls
                   renderConfig={toolsPanelRenderConfig}
-                  onAddLayer={addLayer} 
                   isInspectModeActive={isInspectModeActive}
                   onToggleInspectMode={() => setIsInspectModeActive(!isInspectModeActive)}
                   selectedFeatureAttributes={selectedFeatureAttributes}
+                  selectedFeatureSchema={selectedFeatureSchema}
+                  selectedFeatureTrackSummary={selectedFeatureTrackSummary}
+                  onUpdateSelectedFeatureAttributes={updateSelectedFeatureAttributes}
                   onClearSelectedFeature={clearSelectedFeature}
                   activeDrawTool={activeDrawTool}
                   onToggleDrawingTool={toggleDrawingTool}
                   onStopDrawingTool={stopDrawingTool}
+                  onAddCoordinateFeatures={addCoordinateFeatures}
+                  activeMeasureTool={activeMeasureTool}
+                  onToggleMeasureTool={handleToggleMeasureTool}
+                  measureUnits={measureUnits}
+                  onMeasureUnitsChange={setMeasureUnits}
+                  measurementCount={measurementCount}
+                  onKeepMeasurements={keepMeasurements}
+                  onClearMeasurements={clearMeasurements}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
+                  undoLabel={canUndo ? undoLabel : null}
+                  redoLabel={canRedo ? redoLabel : null}
+                  activeEditTool={activeEditTool}
+                  onToggleEditTool={toggleEditTool}
+                  editTargetLayerId={editTargetLayerId}
+                  onEditTargetLayerChange={setEditTargetLayerId}
+                  editableLayers={layers.map(({ id, name }) => ({ id, name }))}
+                  isSnapEnabled={isSnapEnabled}
+                  onSnapEnabledChange={setIsSnapEnabled}
+                  editTargetFieldSchema={getFieldSchema(editTargetLayerId)}
+                  onEditTargetFieldSchemaChange={(fieldSchema) => updateFieldSchema(editTargetLayerId, fieldSchema)}
                   onClearDrawnFeatures={clearDrawnFeatures}
-                  onSaveDrawnFeaturesAsKML={saveDrawnFeaturesAsKML}
+                  onExportDrawnFeatures={exportDrawnFeatures}
                   isFetchingOSM={isFetchingOSM}
                   onFetchOSMDataTrigger={fetchOSMData}
                   osmCategoriesForSelection={osmCategoriesForSelection}
                   selectedOSMCategoryIds={selectedOSMCategoryIds}
                   onSelectedOSMCategoriesChange={setSelectedOSMCategoryIds}
-                  downloadFormat={downloadFormat}
-                  onDownloadFormatChange={setDownloadFormat}
-                  onDownloadOSMLayers={handleDownloadOSMLayers}
+                  exportableLayers={layers.map(({ id, name }) => ({ id, name }))}
+                  onExportLayers={exportLayers}
                   isDownloading={isDownloading}
                   // Props not relevant to tools panel, pass defaults or empty functions
                   availableBaseLayers={[]}
@@ -861,12 +1692,66 @@ export default function GeoMapperClient() {
                   onToggleLayerVisibility={() => {}}
                   onRemoveLayer={() => {}}
                   onZoomToLayerExtent={() => {}}
+                  onShowAttributeTable={() => {}}
+                  onUpdateLayerStyle={() => {}}
+                  onReorderLayer={() => {}}
+                  onUpdateLayerProperties={() => {}}
+                  attributeTableLayerId={null}
               />
             </div>
           )}
         </div>
 
+        {/* Attribute Table Panel (Bottom) */}
+        {attributeTableLayer && (
+          <div
+            className="absolute bg-gray-800/60 backdrop-blur-md rounded-lg shadow-xl flex flex-col text-white overflow-hidden z-20"
+            style={{
+              height: `${ATTRIBUTE_TABLE_HEIGHT}px`,
+              left: `${PANEL_PADDING}px`,
+              right: `${PANEL_PADDING}px`,
+              bottom: `${PANEL_PADDING}px`,
+            }}
+          >
+            <AttributeTable
+              layer={attributeTableLayer}
+              selectedFeature={selectedFeature}
+              onSelectFeature={selectFeatureFromTable}
+              onClose={() => setAttributeTableLayerId(null)}
+            />
+          </div>
+        )}
+
       </div>
+      <MapStatusBar map={mapInstance} />
+      <CrsPromptDialog request={crsPromptRequest} onResolve={resolveCrsPrompt} />
+      <TableImportDialog
+        source={tableImportSource}
+        onCancel={() => resolveTableImport(null)}
+        onImport={(features, projection) => resolveTableImport({ features, projection })}
+      />
+      <AlertDialog open={!!pendingSession}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Restaurar sesión anterior?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingSession && (
+                <>
+                  Se encontró una sesión guardada automáticamente el{' '}
+                  {new Date(pendingSession.project.savedAt).toLocaleString('es-AR')} con{' '}
+                  {pendingSession.project.layers.length} capa(s) y{' '}
+                  {pendingSession.project.drawings?.features?.length ?? 0} dibujo(s).
+                  Si la descarta, se perderá.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={handleDiscardSession}>Descartar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestoreSession}>Restaurar</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
       <Toaster />
     </div>
   );
@@ -0,0 +1,35 @@
+
+"use client";
+
+import React from 'react';
+
+import { getLegendEntries, type LayerStyle } from '@/lib/layer-style';
+
+interface LayerLegendProps {
+  style: LayerStyle;
+  className?: string;
+}
+
+const LayerLegend: React.FC<LayerLegendProps> = ({ style, className }) => {
+  const entries = getLegendEntries(style);
+  if (!style.thematic || entries.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <p className="text-[11px] font-medium text-white/70 mb-1">{style.thematic.field}</p>
+      <ul className="space-y-0.5 max-h-32 overflow-y-auto">
+        {entries.map((entry, i) => (
+          <li key={`${entry.label}-${i}`} className="flex items-center gap-1.5 text-[11px] text-white/80">
+            <span
+              className="inline-block h-2.5 w-2.5 shrink-0 rounded-sm border border-white/30"
+              style={{ backgroundColor: entry.color }}
+            />
+            <span className="truncate" title={entry.label}>{entry.label}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default LayerLegend;
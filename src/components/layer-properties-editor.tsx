@@ -0,0 +1,92 @@
+
+"use client";
+
+import React from 'react';
+import { useId } from 'react';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import type { MapLayer } from '@/components/geo-mapper-client';
+
+export type LayerPropertiesUpdate = Partial<Pick<MapLayer, 'name' | 'opacity' | 'minZoom' | 'maxZoom'>>;
+
+const LAYER_ZOOM_LIMITS = { min: 0, max: 22 };
+
+interface LayerPropertiesEditorProps {
+  layer: MapLayer;
+  onChange: (changes: LayerPropertiesUpdate) => void;
+}
+
+const LayerPropertiesEditor: React.FC<LayerPropertiesEditorProps> = ({ layer, onChange }) => {
+  const idPrefix = useId();
+  const [draftName, setDraftName] = React.useState(layer.name);
+
+  React.useEffect(() => {
+    setDraftName(layer.name);
+  }, [layer.name]);
+
+  const commitName = () => {
+    const trimmedName = draftName.trim();
+    if (trimmedName && trimmedName !== layer.name) {
+      onChange({ name: trimmedName });
+    } else {
+      setDraftName(layer.name);
+    }
+  };
+
+  const opacity = layer.opacity ?? 1;
+  const minZoom = layer.minZoom ?? LAYER_ZOOM_LIMITS.min;
+  const maxZoom = layer.maxZoom ?? LAYER_ZOOM_LIMITS.max;
+
+  const handleZoomRangeChange = ([newMin, newMax]: number[]) => {
+    onChange({
+      minZoom: newMin > LAYER_ZOOM_LIMITS.min ? newMin : undefined,
+      maxZoom: newMax < LAYER_ZOOM_LIMITS.max ? newMax : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-name`} className="text-xs font-medium text-white/90">Nombre</Label>
+        <Input
+          id={`${idPrefix}-name`}
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitName();
+            if (e.key === 'Escape') setDraftName(layer.name);
+          }}
+          className="h-8 text-xs border-white/30 bg-black/20 text-white/90"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs font-medium text-white/90">Opacidad</Label>
+          <span className="text-xs text-white/60">{Math.round(opacity * 100)}%</span>
+        </div>
+        <Slider min={0} max={1} step={0.05} value={[opacity]} onValueChange={([value]) => onChange({ opacity: value })} />
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs font-medium text-white/90">Rango de zoom visible</Label>
+          <span className="text-xs text-white/60">{minZoom} – {maxZoom}</span>
+        </div>
+        <Slider
+          min={LAYER_ZOOM_LIMITS.min}
+          max={LAYER_ZOOM_LIMITS.max}
+          step={1}
+          minStepsBetweenThumbs={0}
+          value={[minZoom, maxZoom]}
+          onValueChange={handleZoomRangeChange}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default LayerPropertiesEditor;
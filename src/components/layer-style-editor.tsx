@@ -0,0 +1,131 @@
+
+"use client";
+
+import React from 'react';
+import { useId } from 'react';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  POINT_SYMBOL_OPTIONS,
+  STROKE_DASH_OPTIONS,
+  type LayerStyle,
+  type PointSymbol,
+  type StrokeDash,
+} from '@/lib/layer-style';
+
+interface LayerStyleEditorProps {
+  style: LayerStyle;
+  onChange: (style: LayerStyle) => void;
+}
+
+const StyleRow: React.FC<{ label: string; htmlFor?: string; value?: string; children: React.ReactNode }> = ({ label, htmlFor, value, children }) => (
+  <div className="space-y-1">
+    <div className="flex items-center justify-between">
+      <Label htmlFor={htmlFor} className="text-xs font-medium text-white/90">{label}</Label>
+      {value && <span className="text-xs text-white/60">{value}</span>}
+    </div>
+    {children}
+  </div>
+);
+
+const LayerStyleEditor: React.FC<LayerStyleEditorProps> = ({ style, onChange }) => {
+  const idPrefix = useId();
+
+  const update = <K extends keyof LayerStyle>(key: K, value: LayerStyle[K]) => {
+    onChange({ ...style, [key]: value });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <StyleRow label="Relleno" htmlFor={`${idPrefix}-fill-color`}>
+          <Input
+            id={`${idPrefix}-fill-color`}
+            type="color"
+            value={style.fillColor}
+            onChange={(e) => update('fillColor', e.target.value)}
+            className="h-8 w-full p-1 border-white/30 bg-black/20 cursor-pointer"
+          />
+        </StyleRow>
+        <StyleRow label="Borde" htmlFor={`${idPrefix}-stroke-color`}>
+          <Input
+            id={`${idPrefix}-stroke-color`}
+            type="color"
+            value={style.strokeColor}
+            onChange={(e) => update('strokeColor', e.target.value)}
+            className="h-8 w-full p-1 border-white/30 bg-black/20 cursor-pointer"
+          />
+        </StyleRow>
+      </div>
+
+      <StyleRow label="Opacidad de relleno" value={`${Math.round(style.fillOpacity * 100)}%`}>
+        <Slider
+          min={0}
+          max={1}
+          step={0.05}
+          value={[style.fillOpacity]}
+          onValueChange={([value]) => update('fillOpacity', value)}
+        />
+      </StyleRow>
+
+      <StyleRow label="Ancho de borde" value={`${style.strokeWidth} px`}>
+        <Slider
+          min={0}
+          max={10}
+          step={0.25}
+          value={[style.strokeWidth]}
+          onValueChange={([value]) => update('strokeWidth', value)}
+        />
+      </StyleRow>
+
+      <StyleRow label="Tipo de línea" htmlFor={`${idPrefix}-stroke-dash`}>
+        <Select value={style.strokeDash} onValueChange={(value) => update('strokeDash', value as StrokeDash)}>
+          <SelectTrigger id={`${idPrefix}-stroke-dash`} className="w-full text-xs h-8 border-white/30 bg-black/20 text-white/90 focus:ring-primary">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-700 text-white border-gray-600">
+            {STROKE_DASH_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value} className="text-xs hover:bg-gray-600 focus:bg-gray-600">{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </StyleRow>
+
+      <div className="grid grid-cols-2 gap-2">
+        <StyleRow label="Símbolo" htmlFor={`${idPrefix}-point-symbol`}>
+          <Select value={style.pointSymbol} onValueChange={(value) => update('pointSymbol', value as PointSymbol)}>
+            <SelectTrigger id={`${idPrefix}-point-symbol`} className="w-full text-xs h-8 border-white/30 bg-black/20 text-white/90 focus:ring-primary">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-700 text-white border-gray-600">
+              {POINT_SYMBOL_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value} className="text-xs hover:bg-gray-600 focus:bg-gray-600">{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </StyleRow>
+        <StyleRow label="Radio" value={`${style.pointRadius} px`}>
+          <Slider
+            className="pt-3"
+            min={0}
+            max={20}
+            step={1}
+            value={[style.pointRadius]}
+            onValueChange={([value]) => update('pointRadius', value)}
+          />
+        </StyleRow>
+      </div>
+    </div>
+  );
+};
+
+export default LayerStyleEditor;
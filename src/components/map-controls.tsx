@@ -2,14 +2,7 @@
 "use client";
 
 import React from 'react';
-import type { Feature } from 'ol';
 import { useId } from 'react';
-import JSZip from 'jszip';
-import shpjs from 'shpjs';
-import type { GeoJSON as GeoJSONFormatType } from 'ol/format';
-import type KMLFormatType from 'ol/format/KML';
-import type VectorSourceType from 'ol/source/Vector';
-import type VectorLayerType from 'ol/layer/Vector';
 
 
 import { Button } from '@/components/ui/button';
@@ -20,7 +13,10 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { 
   Layers, FileText, Loader2, MousePointerClick, XCircle, ZoomIn, Trash2,
-  Square, PenLine, Dot, Ban, Eraser, Save, ListFilter, Download, MapPin, Plus, Map
+  Square, PenLine, Dot, Ban, Eraser, Save, ListFilter, Download, MapPin, Plus, Map, Table2, Palette,
+  GripVertical, BringToFront, SendToBack, Settings2, Spline, Move,
+  Undo2, Redo2, ListPlus, Ruler, LandPlot, Circle, RectangleHorizontal, Brush, Keyboard,
+  Clock, CheckCircle2, AlertCircle
 } from 'lucide-react';
 import {
   Accordion,
@@ -35,9 +31,41 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover"
 import type { MapLayer } from '@/components/geo-mapper-client';
-import { useToast } from "@/hooks/use-toast";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import LayerStyleEditor from '@/components/layer-style-editor';
+import ThematicStyleEditor from '@/components/thematic-style-editor';
+import LayerLegend from '@/components/layer-legend';
+import LayerPropertiesEditor, { type LayerPropertiesUpdate } from '@/components/layer-properties-editor';
+import FieldSchemaEditor from '@/components/field-schema-editor';
+import FeatureAttributeForm from '@/components/feature-attribute-form';
+import CoordinateInputDialog, { type CoordinateGeometryType } from '@/components/coordinate-input-dialog';
+import ExportDialog, { type LayerExportRequest } from '@/components/export-dialog';
+import { DEFAULT_LAYER_STYLE, type LayerStyle } from '@/lib/layer-style';
+import { DRAWING_LAYER_ID, type DrawTool, type EditTool } from '@/lib/editing';
+import type { FieldDefinition } from '@/lib/field-schema';
+import { formatDuration, type TrackSummary } from '@/lib/gpx';
+import { isLonLatOnlyFormat } from '@/lib/layer-export';
+import { IMPORT_FILE_ACCEPT, type ImportProgress, type ImportStage } from '@/lib/layer-import';
+import { EXPORT_CRS_OPTIONS } from '@/lib/projections';
+import {
+  AREA_UNIT_OPTIONS,
+  DEFAULT_MEASURE_UNITS,
+  LENGTH_UNIT_OPTIONS,
+  formatLength,
+  type AreaUnit,
+  type LengthUnit,
+  type MeasureTool,
+  type MeasureUnits,
+} from '@/lib/measurement';
+import type { ImportFileReport, ImportStatus } from '@/hooks/use-layer-import';
 import { Separator } from '@/components/ui/separator';
+import { Progress } from '@/components/ui/progress';
 
 interface RenderConfig {
   baseLayers?: boolean;
@@ -55,7 +83,13 @@ interface BaseLayerOptionForSelect {
 
 interface MapControlsProps {
   renderConfig: RenderConfig;
-  onAddLayer: (layer: MapLayer) => void;
+
+  // Import Props (only for layers panel)
+  onImportFiles?: (files: File[]) => void;
+  onCancelImport?: () => void;
+  isImporting?: boolean;
+  importReports?: ImportFileReport[];
+  onClearImportReports?: () => void;
   
   // Base Layer Props (only for layers panel)
   availableBaseLayers?: BaseLayerOptionForSelect[];
@@ -67,19 +101,48 @@ interface MapControlsProps {
   onToggleLayerVisibility?: (layerId: string) => void;
   onRemoveLayer?: (layerId: string) => void;
   onZoomToLayerExtent?: (layerId: string) => void;
+  onShowAttributeTable?: (layerId: string) => void;
+  attributeTableLayerId?: string | null;
+  onUpdateLayerStyle?: (layerId: string, style: LayerStyle) => void;
+  onReorderLayer?: (layerId: string, targetIndex: number) => void;
+  onUpdateLayerProperties?: (layerId: string, changes: LayerPropertiesUpdate) => void;
   
   // Inspector Props (only for tools panel)
   isInspectModeActive?: boolean;
   onToggleInspectMode?: () => void;
   selectedFeatureAttributes?: Record<string, any> | null;
+  selectedFeatureSchema?: FieldDefinition[] | null; // null when the feature's attributes aren't editable
+  selectedFeatureTrackSummary?: TrackSummary | null; // for GPS routes and tracks
+  onUpdateSelectedFeatureAttributes?: (values: Record<string, string | number | null>) => void;
   onClearSelectedFeature?: () => void;
 
   // Drawing & OSM Props (only for tools panel)
   activeDrawTool?: string | null;
-  onToggleDrawingTool?: (toolType: 'Polygon' | 'LineString' | 'Point') => void;
+  onToggleDrawingTool?: (toolType: DrawTool) => void;
   onStopDrawingTool?: () => void;
+  onAddCoordinateFeatures?: (geometryType: CoordinateGeometryType, coordinates: number[][]) => void;
+  activeMeasureTool?: MeasureTool | null;
+  onToggleMeasureTool?: (tool: MeasureTool) => void;
+  measureUnits?: MeasureUnits;
+  onMeasureUnitsChange?: (units: MeasureUnits) => void;
+  measurementCount?: number;
+  onKeepMeasurements?: () => void;
+  onClearMeasurements?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  undoLabel?: string | null;
+  redoLabel?: string | null;
+  activeEditTool?: EditTool | null;
+  onToggleEditTool?: (tool: EditTool) => void;
+  editTargetLayerId?: string;
+  onEditTargetLayerChange?: (layerId: string) => void;
+  editableLayers?: { id: string; name: string; }[];
+  isSnapEnabled?: boolean;
+  onSnapEnabledChange?: (enabled: boolean) => void;
+  editTargetFieldSchema?: FieldDefinition[];
+  onEditTargetFieldSchemaChange?: (schema: FieldDefinition[]) => void;
   onClearDrawnFeatures?: () => void;
-  onSaveDrawnFeaturesAsKML?: () => void;
+  onExportDrawnFeatures?: (format: string, projection: string) => void;
   isFetchingOSM?: boolean;
   onFetchOSMDataTrigger?: () => void;
   osmCategoriesForSelection?: { id: string; name: string; }[];
@@ -87,12 +150,25 @@ interface MapControlsProps {
   onSelectedOSMCategoriesChange?: (ids: string[]) => void;
 
   // Download Props (only for tools panel)
-  downloadFormat?: string;
-  onDownloadFormatChange?: (format: string) => void;
-  onDownloadOSMLayers?: () => void;
+  exportableLayers?: { id: string; name: string; }[];
+  onExportLayers?: (request: LayerExportRequest) => Promise<boolean>; // true once downloaded
   isDownloading?: boolean;
 }
 
+// KML and GPX only allow lon/lat, so the CRS choice is disabled for them.
+const ExportCrsSelect: React.FC<{ id?: string; value: string; onChange: (projection: string) => void; format: string }> = ({ id, value, onChange, format }) => (
+  <Select value={isLonLatOnlyFormat(format) ? 'EPSG:4326' : value} onValueChange={onChange} disabled={isLonLatOnlyFormat(format)}>
+    <SelectTrigger id={id} className="w-full text-xs h-8 border-white/30 bg-black/20 text-white/90 focus:ring-primary" aria-label="Sistema de referencia de exportación">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent className="bg-gray-700 text-white border-gray-600">
+      {EXPORT_CRS_OPTIONS.map(option => (
+        <SelectItem key={option.code} value={option.code} className="text-xs hover:bg-gray-600 focus:bg-gray-600">{option.name}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
 const SectionHeader: React.FC<{ title: string; description?: string; icon: React.ElementType }> = ({ title, description, icon: Icon }) => (
   <div className="flex items-center w-full">
     <Icon className="mr-2 h-4 w-4 text-primary" />
@@ -104,10 +180,36 @@ const SectionHeader: React.FC<{ title: string; description?: string; icon: React
 );
 
 
+const IMPORT_STATUS_ICONS: Record<ImportStatus, React.ElementType> = {
+  pending: Clock,
+  processing: Loader2,
+  done: CheckCircle2,
+  cancelled: Ban,
+  error: AlertCircle,
+};
+
+const IMPORT_STAGE_LABELS: Record<ImportStage, string> = {
+  reading: 'Leyendo',
+  parsing: 'Procesando',
+  projecting: 'Reproyectando',
+  encoding: 'Preparando geometrías',
+  decoding: 'Cargando geometrías',
+};
+
+function formatImportProgress(progress: ImportProgress): string {
+  const label = IMPORT_STAGE_LABELS[progress.stage];
+  return progress.fraction === null ? `${label}...` : `${label}: ${Math.round(progress.fraction * 100)}%`;
+}
+
 const MapControls: React.FC<MapControlsProps> = ({ 
   renderConfig,
-  onAddLayer, 
-  
+
+  onImportFiles = () => {},
+  onCancelImport = () => {},
+  isImporting = false,
+  importReports = [],
+  onClearImportReports = () => {},
+
   availableBaseLayers,
   activeBaseLayerId,
   onChangeBaseLayer,
@@ -116,17 +218,46 @@ const MapControls: React.FC<MapControlsProps> = ({
   onToggleLayerVisibility = () => {},
   onRemoveLayer = () => {},
   onZoomToLayerExtent = () => {},
+  onShowAttributeTable = () => {},
+  attributeTableLayerId = null,
+  onUpdateLayerStyle = () => {},
+  onReorderLayer = () => {},
+  onUpdateLayerProperties = () => {},
 
   isInspectModeActive = false,
   onToggleInspectMode = () => {},
   selectedFeatureAttributes = null,
+  selectedFeatureSchema = null,
+  selectedFeatureTrackSummary = null,
+  onUpdateSelectedFeatureAttributes = () => {},
   onClearSelectedFeature = () => {},
 
   activeDrawTool = null,
   onToggleDrawingTool = () => {},
   onStopDrawingTool = () => {},
+  onAddCoordinateFeatures = () => {},
+  activeMeasureTool = null,
+  onToggleMeasureTool = () => {},
+  measureUnits = DEFAULT_MEASURE_UNITS,
+  onMeasureUnitsChange = () => {},
+  measurementCount = 0,
+  onKeepMeasurements = () => {},
+  onClearMeasurements = () => {},
+  onUndo = () => {},
+  onRedo = () => {},
+  undoLabel = null,
+  redoLabel = null,
+  activeEditTool = null,
+  onToggleEditTool = () => {},
+  editTargetLayerId = DRAWING_LAYER_ID,
+  onEditTargetLayerChange = () => {},
+  editableLayers = [],
+  isSnapEnabled = true,
+  onSnapEnabledChange = () => {},
+  editTargetFieldSchema = [],
+  onEditTargetFieldSchemaChange = () => {},
   onClearDrawnFeatures = () => {},
-  onSaveDrawnFeaturesAsKML = () => {},
+  onExportDrawnFeatures = () => {},
 
   isFetchingOSM = false,
   onFetchOSMDataTrigger = () => {},
@@ -134,19 +265,20 @@ const MapControls: React.FC<MapControlsProps> = ({
   selectedOSMCategoryIds = [],
   onSelectedOSMCategoriesChange = () => {},
 
-  downloadFormat = 'geojson',
-  onDownloadFormatChange = () => {},
-  onDownloadOSMLayers = () => {},
+  exportableLayers = [],
+  onExportLayers = async () => false,
   isDownloading = false,
 }) => {
-  const [selectedFile, setSelectedFile] = React.useState<File | null>(null);
-  const [selectedMultipleFiles, setSelectedMultipleFiles] = React.useState<FileList | null>(null);
-  const [isLoading, setIsLoading] = React.useState(false);
-  const { toast } = useToast();
   const fileInputRef = React.useRef<HTMLInputElement>(null);
   const uniqueIdPrefix = useId();
 
   const [openAccordionItems, setOpenAccordionItems] = React.useState<string[]>([]);
+  const [draggedLayerId, setDraggedLayerId] = React.useState<string | null>(null);
+  const [dragOverLayerId, setDragOverLayerId] = React.useState<string | null>(null);
+  const [drawingExportFormat, setDrawingExportFormat] = React.useState('kml');
+  const [drawingExportProjection, setDrawingExportProjection] = React.useState('EPSG:4326');
+  const [isCoordinateDialogOpen, setIsCoordinateDialogOpen] = React.useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = React.useState(false);
   const prevLayersLengthRef = React.useRef(layers.length);
 
   React.useEffect(() => {
@@ -160,171 +292,20 @@ const MapControls: React.FC<MapControlsProps> = ({
 
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (event.target.files) {
-      if (event.target.files.length > 1) {
-        setSelectedMultipleFiles(event.target.files);
-        setSelectedFile(null); 
-      } else if (event.target.files.length === 1) {
-        setSelectedFile(event.target.files[0]);
-        setSelectedMultipleFiles(null); 
-      } else {
-        setSelectedFile(null);
-        setSelectedMultipleFiles(null);
-      }
-    }
+    if (event.target.files && event.target.files.length > 0) onImportFiles(Array.from(event.target.files));
+    // Lets the same files be picked again.
+    event.target.value = '';
   };
 
-  const resetFileInput = React.useCallback(() => {
-    setSelectedFile(null);
-    setSelectedMultipleFiles(null);
-    if (fileInputRef.current) fileInputRef.current.value = '';
-  }, []);
 
-  const handleFileUpload = React.useCallback(async () => {
-    if (!selectedFile && !selectedMultipleFiles) {
-      return;
+  const handleLayerDrop = (targetLayerId: string) => {
+    if (draggedLayerId && draggedLayerId !== targetLayerId) {
+      const targetIndex = layers.findIndex(l => l.id === targetLayerId);
+      if (targetIndex !== -1) onReorderLayer(draggedLayerId, targetIndex);
     }
-    setIsLoading(true);
-    const uniqueFileId = `${uniqueIdPrefix}-${Date.now()}`;
-
-    try {
-      if (selectedMultipleFiles && selectedMultipleFiles.length > 0) {
-        let shpFileBuffer: ArrayBuffer | null = null;
-        let dbfFileBuffer: ArrayBuffer | null = null;
-        let shapeFileName = "Shapefile";
-
-        for (let i = 0; i < selectedMultipleFiles.length; i++) {
-          const file = selectedMultipleFiles[i];
-          const fileNameLower = file.name.toLowerCase();
-          if (fileNameLower.endsWith('.shp')) {
-            shpFileBuffer = await file.arrayBuffer();
-            shapeFileName = file.name.substring(0, file.name.lastIndexOf('.'));
-          } else if (fileNameLower.endsWith('.dbf')) {
-            dbfFileBuffer = await file.arrayBuffer();
-          }
-        }
-
-        if (shpFileBuffer && dbfFileBuffer) {
-          const geojson = shpjs.combine([shpjs.parseShp(shpFileBuffer), shpjs.parseDbf(dbfFileBuffer)]);
-          const features = new (await import('ol/format/GeoJSON')).default().readFeatures(geojson, {
-            dataProjection: 'EPSG:4326',
-            featureProjection: 'EPSG:3857',
-          });
-
-          if (features && features.length > 0) {
-            const VectorSource = (await import('ol/source/Vector')).default;
-            const VectorLayer = (await import('ol/layer/Vector')).default;
-            const vectorSource = new VectorSource({ features });
-            const vectorLayer = new VectorLayer({ source: vectorSource });
-            const newLayerId = `${uniqueFileId}-${shapeFileName}`;
-            onAddLayer({ id: newLayerId, name: shapeFileName, olLayer: vectorLayer as VectorLayerType<VectorSourceType<Feature<any>>>, visible: true });
-            toast({ title: "Capa Añadida", description: `${shapeFileName} añadido exitosamente al mapa.` });
-          } else {
-            throw new Error(`No se encontraron entidades en Shapefile ${shapeFileName} o los archivos están vacíos.`);
-          }
-        } else {
-          throw new Error("Un Shapefile requiere al menos archivos .shp y .dbf. Por favor, seleccione ambos.");
-        }
-      } else if (selectedFile) {
-        const fileName = selectedFile.name;
-        const fileBaseName = fileName.substring(0, fileName.lastIndexOf('.'));
-        const fileExtension = fileName.split('.').pop()?.toLowerCase();
-
-        const { default: GeoJSONFormat } = await import('ol/format/GeoJSON') as { default: typeof GeoJSONFormatType };
-        const { default: KMLFormat } = await import('ol/format/KML') as { default: typeof KMLFormatType };
-        const { default: VectorSource } = await import('ol/source/Vector') as { default: typeof VectorSourceType };
-        const { default: VectorLayer } = await import('ol/layer/Vector') as { default: typeof VectorLayerType };
-
-        let features: Feature[] | undefined;
-        const commonFormatOptions = { dataProjection: 'EPSG:4326', featureProjection: 'EPSG:3857' };
-
-
-        if (fileExtension === 'kmz' || (fileExtension === 'zip' && fileName.toLowerCase().endsWith('.kmz'))) {
-          const zip = await JSZip.loadAsync(await selectedFile.arrayBuffer());
-          let kmlFileEntry: JSZip.JSZipObject | null = null;
-          let kmlFileNameInZip = fileBaseName;
-          
-          kmlFileEntry = zip.file(/^doc\\.kml$/i)?.[0] || zip.file(/\\.kml$/i)?.[0] || null;
-          
-          if (kmlFileEntry) {
-            kmlFileNameInZip = kmlFileEntry.name.substring(0, kmlFileEntry.name.lastIndexOf('.'));
-            const kmlContent = await kmlFileEntry.async('text');
-            features = new KMLFormat().readFeatures(kmlContent, commonFormatOptions);
-             toast({ title: "Capa Añadida", description: `${kmlFileNameInZip} (de KMZ) añadido exitosamente.` });
-          } else {
-            throw new Error(`Archivo KMZ/ZIP ${fileName} no contiene un archivo KML válido.`);
-          }
-
-        } else if (fileExtension === 'zip') { 
-          const zip = await JSZip.loadAsync(await selectedFile.arrayBuffer());
-          let shpFile: JSZip.JSZipObject | null = null;
-          let dbfFile: JSZip.JSZipObject | null = null;
-          let shpFileNameInZip = fileBaseName;
-
-
-          zip.forEach((relativePath, file) => {
-            if (relativePath.toLowerCase().endsWith('.shp')) {
-               shpFile = file;
-               shpFileNameInZip = relativePath.substring(0, relativePath.lastIndexOf('.'));
-            }
-            if (relativePath.toLowerCase().endsWith('.dbf')) dbfFile = file;
-          });
-
-          if (shpFile && dbfFile) {
-            const shpBuffer = await shpFile.async('arraybuffer');
-            const dbfBuffer = await dbfFile.async('arraybuffer');
-            const geojson = shpjs.combine([shpjs.parseShp(shpBuffer), shpjs.parseDbf(dbfBuffer)]);
-            features = new GeoJSONFormat().readFeatures(geojson, commonFormatOptions);
-            toast({ title: "Capa Añadida", description: `${shpFileNameInZip} (Shapefile de ZIP) añadido exitosamente.` });
-          } else {
-            let kmlFileEntry: JSZip.JSZipObject | null = null;
-            kmlFileEntry = zip.file(/^doc\\.kml$/i)?.[0] || zip.file(/\\.kml$/i)?.[0] || null;
-            if (kmlFileEntry) {
-              const kmlFileNameInZip = kmlFileEntry.name.substring(0, kmlFileEntry.name.lastIndexOf('.'));
-              const kmlContent = await kmlFileEntry.async('text');
-              features = new KMLFormat().readFeatures(kmlContent, commonFormatOptions);
-              toast({ title: "Capa Añadida", description: `${kmlFileNameInZip} (de ZIP conteniendo KML) añadido exitosamente.` });
-            } else {
-              throw new Error(`Archivo ZIP ${fileName} no contiene un Shapefile válido (archivos .shp y .dbf) ni un archivo KML.`);
-            }
-          }
-        } else if (fileExtension === 'kml') {
-          const fileContent = await selectedFile.text();
-          features = new KMLFormat().readFeatures(fileContent, commonFormatOptions);
-          toast({ title: "Capa Añadida", description: `${fileBaseName} añadido exitosamente al mapa.` });
-        } else if (fileExtension === 'geojson' || fileExtension === 'json') {
-          const fileContent = await selectedFile.text();
-          features = new GeoJSONFormat().readFeatures(fileContent, commonFormatOptions);
-          toast({ title: "Capa Añadida", description: `${fileBaseName} añadido exitosamente al mapa.` });
-        } else {
-          throw new Error(`Tipo de archivo no soportado: .${fileExtension}. Por favor, cargue KML, KMZ, GeoJSON, o un ZIP conteniendo un Shapefile.`);
-        }
-
-        if (features && features.length > 0) {
-          const vectorSource = new VectorSource({ features });
-          const vectorLayer = new VectorLayer({ source: vectorSource });
-          const newLayerId = `${uniqueFileId}-${fileBaseName}`;
-          onAddLayer({ id: newLayerId, name: fileBaseName, olLayer: vectorLayer as VectorLayerType<VectorSourceType<Feature<any>>>, visible: true });
-        } else if (features) { 
-           toast({ title: "Capa Vacía", description: `No se encontraron entidades en ${fileName}.`, variant: "destructive" });
-        }
-      }
-    } catch (parseError: any) {
-      console.error("Error procesando archivo:", parseError);
-      toast({ title: "Error de Procesamiento", description: parseError.message || "Ocurrió un error desconocido.", variant: "destructive" });
-    } finally {
-      setIsLoading(false);
-      resetFileInput();
-    }
-  }, [selectedFile, selectedMultipleFiles, onAddLayer, toast, setIsLoading, resetFileInput, uniqueIdPrefix]);
-
-  React.useEffect(() => {
-    if ((selectedFile || selectedMultipleFiles)) { 
-      handleFileUpload();
-    }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedFile, selectedMultipleFiles]);
-
+    setDraggedLayerId(null);
+    setDragOverLayerId(null);
+  };
 
   const getButtonVariant = (toolName: string) => {
     return activeDrawTool === toolName ? "secondary" : "outline";
@@ -365,23 +346,75 @@ const MapControls: React.FC<MapControlsProps> = ({
               type="file"
               multiple
               onChange={handleFileChange}
-              accept=".kml,.kmz,.geojson,.json,.zip,.shp,.dbf"
+              accept={IMPORT_FILE_ACCEPT}
               className="hidden"
-              disabled={isLoading}
+              disabled={isImporting}
             />
             <Button 
               onClick={() => fileInputRef.current?.click()}
               className="w-full bg-primary/70 hover:bg-primary/90 text-primary-foreground text-xs h-8"
-              disabled={isLoading}
-              title="Importar capa desde archivo"
+              disabled={isImporting}
+              title="Importar capas desde archivos (también puede arrastrarlos sobre el mapa)"
             >
-              {isLoading ? (
+              {isImporting ? (
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
               ) : (
                 <Plus className="mr-2 h-4 w-4" />
               )}
-              {isLoading ? 'Procesando...' : 'Importar'}
+              {isImporting ? 'Procesando...' : 'Importar'}
             </Button>
+            {importReports.length > 0 && (
+              <div className="mt-2 p-1.5 bg-black/20 rounded-md">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-xs text-white/90">
+                    Importación: {importReports.filter(report => report.status !== 'pending' && report.status !== 'processing').length} de {importReports.length}
+                  </span>
+                  {isImporting ? (
+                    <Button
+                      variant="ghost"
+                      onClick={onCancelImport}
+                      className="h-5 px-1.5 text-xs text-white/70 hover:text-white hover:bg-white/10"
+                      title="Cancelar la importación"
+                    >
+                      <Ban className="mr-1 h-3 w-3" />
+                      Cancelar
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={onClearImportReports}
+                      className="h-5 w-5 text-white/70 hover:text-white hover:bg-white/10"
+                      title="Cerrar el informe de importación"
+                    >
+                      <XCircle className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+                <ul className="max-h-32 overflow-y-auto space-y-1">
+                  {importReports.map(report => {
+                    const StatusIcon = IMPORT_STATUS_ICONS[report.status];
+                    return (
+                      <li key={report.id} className="flex items-start gap-1.5 text-xs">
+                        <StatusIcon className={`mt-0.5 h-3 w-3 flex-shrink-0 ${report.status === 'processing' ? 'animate-spin' : ''} ${report.status === 'error' ? 'text-red-400' : report.status === 'done' ? 'text-green-400' : 'text-white/60'}`} />
+                        <div className="min-w-0 flex-1">
+                          <p className="truncate text-white/90" title={report.name}>{report.name}</p>
+                          {report.message && <p className={report.status === 'error' ? 'text-red-300' : 'text-white/60'}>{report.message}</p>}
+                          {report.status === 'processing' && report.progress && (
+                            <>
+                              <p className="text-white/60">{formatImportProgress(report.progress)}</p>
+                              {report.progress.fraction !== null && (
+                                <Progress value={report.progress.fraction * 100} className="mt-0.5 h-1 bg-white/20" />
+                              )}
+                            </>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
           </div>
         )}
 
@@ -410,8 +443,32 @@ const MapControls: React.FC<MapControlsProps> = ({
                 ) : (
                   <ScrollArea className="max-h-48 p-2"> 
                     <ul className="space-y-1.5">
-                      {layers.map((layer) => (
-                        <li key={layer.id} className="flex items-center justify-between p-1.5 rounded-md border border-white/15 bg-black/10 hover:bg-white/15 transition-colors">
+                      {/* Listed top-down in drawing order: the first entry is drawn on top of the others. */}
+                      {[...layers].reverse().map((layer) => (
+                        <li
+                          key={layer.id}
+                          draggable
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move';
+                            setDraggedLayerId(layer.id);
+                          }}
+                          onDragOver={(e) => {
+                            if (!draggedLayerId) return;
+                            e.preventDefault();
+                            if (dragOverLayerId !== layer.id) setDragOverLayerId(layer.id);
+                          }}
+                          onDragLeave={() => setDragOverLayerId(prev => (prev === layer.id ? null : prev))}
+                          onDrop={(e) => {
+                            e.preventDefault();
+                            handleLayerDrop(layer.id);
+                          }}
+                          onDragEnd={() => {
+                            setDraggedLayerId(null);
+                            setDragOverLayerId(null);
+                          }}
+                          className={`flex flex-wrap items-center justify-between p-1.5 rounded-md border bg-black/10 hover:bg-white/15 transition-colors ${dragOverLayerId === layer.id && draggedLayerId !== layer.id ? 'border-accent' : 'border-white/15'} ${draggedLayerId === layer.id ? 'opacity-50' : ''}`}
+                        >
+                           <GripVertical className="mr-1 h-3.5 w-3.5 shrink-0 cursor-grab text-white/50" aria-hidden="true" />
                            <Checkbox
                               id={`layer-toggle-${layer.id}`}
                               checked={layer.visible}
@@ -423,6 +480,28 @@ const MapControls: React.FC<MapControlsProps> = ({
                             {layer.name}
                           </Label>
                           <div className="flex items-center space-x-0.5">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => onReorderLayer(layer.id, layers.length - 1)}
+                              className="h-6 w-6 text-white hover:bg-gray-600/80 p-0"
+                              aria-label={`Traer ${layer.name} al frente`}
+                              title="Traer al frente"
+                              disabled={layers[layers.length - 1]?.id === layer.id}
+                            >
+                              <BringToFront className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => onReorderLayer(layer.id, 0)}
+                              className="h-6 w-6 text-white hover:bg-gray-600/80 p-0"
+                              aria-label={`Enviar ${layer.name} al fondo`}
+                              title="Enviar al fondo"
+                              disabled={layers[0]?.id === layer.id}
+                            >
+                              <SendToBack className="h-3.5 w-3.5" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="icon"
@@ -433,6 +512,74 @@ const MapControls: React.FC<MapControlsProps> = ({
                             >
                               <ZoomIn className="h-3.5 w-3.5" />
                             </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => onShowAttributeTable(layer.id)}
+                              className={`h-6 w-6 text-white hover:bg-gray-600/80 p-0 ${attributeTableLayerId === layer.id ? 'bg-accent/30' : ''}`}
+                              aria-label={`Tabla de atributos de ${layer.name}`}
+                              title="Abrir tabla de atributos"
+                            >
+                              <Table2 className="h-3.5 w-3.5" />
+                            </Button>
+                            <Popover>
+                              <PopoverTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6 text-white hover:bg-gray-600/80 p-0"
+                                  aria-label={`Propiedades de ${layer.name}`}
+                                  title="Nombre, opacidad y rango de zoom"
+                                >
+                                  <Settings2 className="h-3.5 w-3.5" />
+                                </Button>
+                              </PopoverTrigger>
+                              <PopoverContent side="right" align="start" className="w-64 p-3 bg-gray-800/95 text-white border-gray-600">
+                                <LayerPropertiesEditor
+                                  layer={layer}
+                                  onChange={(changes) => onUpdateLayerProperties(layer.id, changes)}
+                                />
+                              </PopoverContent>
+                            </Popover>
+                            <Popover>
+                              <PopoverTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6 text-white hover:bg-gray-600/80 p-0"
+                                  aria-label={`Estilo de ${layer.name}`}
+                                  title="Editar estilo de la capa"
+                                >
+                                  <Palette className="h-3.5 w-3.5" />
+                                </Button>
+                              </PopoverTrigger>
+                              <PopoverContent side="right" align="start" className="w-72 p-3 bg-gray-800/95 text-white border-gray-600">
+                                <p className="text-xs font-semibold mb-2 truncate" title={layer.name}>Estilo: {layer.name}</p>
+                                <Tabs defaultValue={layer.style?.thematic?.mode ?? 'simple'}>
+                                  <TabsList className="grid w-full grid-cols-3 h-8 bg-black/30 mb-2">
+                                    <TabsTrigger value="simple" className="text-xs">Simple</TabsTrigger>
+                                    <TabsTrigger value="categorized" className="text-xs">Categorizado</TabsTrigger>
+                                    <TabsTrigger value="graduated" className="text-xs">Graduado</TabsTrigger>
+                                  </TabsList>
+                                  <TabsContent value="simple">
+                                    <LayerStyleEditor
+                                      style={layer.style ?? DEFAULT_LAYER_STYLE}
+                                      onChange={(style) => onUpdateLayerStyle(layer.id, style)}
+                                    />
+                                  </TabsContent>
+                                  {(['categorized', 'graduated'] as const).map(mode => (
+                                    <TabsContent key={mode} value={mode}>
+                                      <ThematicStyleEditor
+                                        mode={mode}
+                                        style={layer.style ?? DEFAULT_LAYER_STYLE}
+                                        features={layer.olLayer.getSource()?.getFeatures() ?? []}
+                                        onChange={(style) => onUpdateLayerStyle(layer.id, style)}
+                                      />
+                                    </TabsContent>
+                                  ))}
+                                </Tabs>
+                              </PopoverContent>
+                            </Popover>
                             <Button
                               variant="ghost"
                               size="icon"
@@ -444,6 +591,9 @@ const MapControls: React.FC<MapControlsProps> = ({
                               <Trash2 className="h-3.5 w-3.5" />
                             </Button>
                           </div>
+                          {layer.style?.thematic && (
+                            <LayerLegend style={layer.style} className="basis-full pl-5 pt-1" />
+                          )}
                         </li>
                       ))}
                     </ul>
@@ -466,7 +616,7 @@ const MapControls: React.FC<MapControlsProps> = ({
                   onClick={onToggleInspectMode} 
                   variant={isInspectModeActive ? "secondary" : "outline"} 
                   className={`w-full text-xs h-8 ${isInspectModeActive ? 'bg-accent/30 hover:bg-accent/40 text-white' : 'border-white/30 hover:bg-white/10 text-white/90'}`}
-                  disabled={!!activeDrawTool} 
+                  disabled={!!activeDrawTool || !!activeMeasureTool} 
                 >
                   {isInspectModeActive ? 'Modo Inspector Activo' : 'Activar Modo Inspector'}
                 </Button>
@@ -476,22 +626,51 @@ const MapControls: React.FC<MapControlsProps> = ({
                     <Button onClick={onClearSelectedFeature} variant="outline" className="w-full text-xs h-8 border-white/30 hover:bg-white/10 text-white/90">
                       <XCircle className="mr-2 h-3 w-3" /> Limpiar Selección
                     </Button>
-                    <Card className="bg-black/20 border-white/10 max-h-32 text-white">
-                      <CardHeader className="p-1.5">
-                        <CardTitle className="text-xs font-medium text-white/90">Atributos de Entidad</CardTitle>
-                      </CardHeader>
-                      <CardContent className="p-1.5 pt-0">
-                        <ScrollArea className="h-24">
+                    {selectedFeatureTrackSummary && (
+                      <Card className="bg-black/20 border-white/10 text-white">
+                        <CardHeader className="p-1.5">
+                          <CardTitle className="text-xs font-medium text-white/90">Resumen del Recorrido</CardTitle>
+                        </CardHeader>
+                        <CardContent className="p-1.5 pt-0">
                           <ul className="text-xs text-white/80 space-y-1">
-                            {Object.entries(selectedFeatureAttributes).map(([key, value]) => (
-                              <li key={key} className="truncate">
-                                <span className="font-semibold">{key}:</span> {String(value)}
-                              </li>
-                            ))}
+                            <li><span className="font-semibold">Longitud:</span> {formatLength(selectedFeatureTrackSummary.length, measureUnits.length)}</li>
+                            <li><span className="font-semibold">Duración:</span> {selectedFeatureTrackSummary.duration !== null ? formatDuration(selectedFeatureTrackSummary.duration) : 'sin tiempos'}</li>
+                            <li><span className="font-semibold">Desnivel positivo:</span> {selectedFeatureTrackSummary.elevationGain !== null ? formatLength(selectedFeatureTrackSummary.elevationGain, 'm') : 'sin elevación'}</li>
                           </ul>
-                        </ScrollArea>
-                      </CardContent>
-                    </Card>
+                        </CardContent>
+                      </Card>
+                    )}
+                    {selectedFeatureSchema ? (
+                      <Card className="bg-black/20 border-white/10 text-white">
+                        <CardHeader className="p-1.5">
+                          <CardTitle className="text-xs font-medium text-white/90">Editar Atributos</CardTitle>
+                        </CardHeader>
+                        <CardContent className="p-1.5 pt-0">
+                          <FeatureAttributeForm
+                            attributes={selectedFeatureAttributes}
+                            schema={selectedFeatureSchema}
+                            onSubmit={onUpdateSelectedFeatureAttributes}
+                          />
+                        </CardContent>
+                      </Card>
+                    ) : (
+                      <Card className="bg-black/20 border-white/10 max-h-32 text-white">
+                        <CardHeader className="p-1.5">
+                          <CardTitle className="text-xs font-medium text-white/90">Atributos de Entidad</CardTitle>
+                        </CardHeader>
+                        <CardContent className="p-1.5 pt-0">
+                          <ScrollArea className="h-24">
+                            <ul className="text-xs text-white/80 space-y-1">
+                              {Object.entries(selectedFeatureAttributes).map(([key, value]) => (
+                                <li key={key} className="truncate">
+                                  <span className="font-semibold">{key}:</span> {String(value)}
+                                </li>
+                              ))}
+                            </ul>
+                          </ScrollArea>
+                        </CardContent>
+                      </Card>
+                    )}
                   </>
                 ) : (
                   isInspectModeActive && (
@@ -571,6 +750,33 @@ const MapControls: React.FC<MapControlsProps> = ({
                   >
                     <Dot className="mr-1 h-3 w-3" /> Punto
                   </Button>
+                  <Button 
+                    onClick={() => onToggleDrawingTool('Circle')} 
+                    variant={getButtonVariant('Circle')}
+                    className="text-xs h-8 border-white/30 hover:bg-white/10 text-white/90 data-[state=active]:bg-accent/30 data-[state=active]:text-white"
+                    data-state={activeDrawTool === 'Circle' ? 'active' : 'inactive'}
+                    title="Dibujar Círculo (clic en el centro y otro en el radio; se guarda como polígono)"
+                  >
+                    <Circle className="mr-1 h-3 w-3" /> Círculo
+                  </Button>
+                  <Button 
+                    onClick={() => onToggleDrawingTool('Box')} 
+                    variant={getButtonVariant('Box')}
+                    className="text-xs h-8 border-white/30 hover:bg-white/10 text-white/90 data-[state=active]:bg-accent/30 data-[state=active]:text-white"
+                    data-state={activeDrawTool === 'Box' ? 'active' : 'inactive'}
+                    title="Dibujar Rectángulo (ideal para obtener datos OSM)"
+                  >
+                    <RectangleHorizontal className="mr-1 h-3 w-3" /> Rectángulo
+                  </Button>
+                  <Button 
+                    onClick={() => onToggleDrawingTool('Freehand')} 
+                    variant={getButtonVariant('Freehand')}
+                    className="text-xs h-8 border-white/30 hover:bg-white/10 text-white/90 data-[state=active]:bg-accent/30 data-[state=active]:text-white"
+                    data-state={activeDrawTool === 'Freehand' ? 'active' : 'inactive'}
+                    title="Dibujar línea a mano alzada (arrastrar)"
+                  >
+                    <Brush className="mr-1 h-3 w-3" /> Mano alzada
+                  </Button>
                 </div>
                 {activeDrawTool && (
                   <Button 
@@ -581,6 +787,179 @@ const MapControls: React.FC<MapControlsProps> = ({
                     <Ban className="mr-2 h-3 w-3" /> Detener Dibujo
                   </Button>
                 )}
+                <Button 
+                  onClick={() => setIsCoordinateDialogOpen(true)} 
+                  variant="outline" 
+                  className="w-full text-xs h-8 border-white/30 hover:bg-white/10 text-white/90"
+                  title="Crear puntos, líneas o polígonos a partir de coordenadas escritas o pegadas"
+                >
+                  <Keyboard className="mr-2 h-3 w-3" /> Ingresar Coordenadas
+                </Button>
+                <CoordinateInputDialog 
+                  open={isCoordinateDialogOpen} 
+                  onOpenChange={setIsCoordinateDialogOpen} 
+                  onSubmit={onAddCoordinateFeatures} 
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <Button 
+                    onClick={() => onToggleMeasureTool('length')} 
+                    variant={activeMeasureTool === 'length' ? "secondary" : "outline"}
+                    className="text-xs h-8 border-white/30 hover:bg-white/10 text-white/90 data-[state=active]:bg-accent/30 data-[state=active]:text-white"
+                    data-state={activeMeasureTool === 'length' ? 'active' : 'inactive'}
+                    title="Medir distancia y rumbo (geodésico)"
+                  >
+                    <Ruler className="mr-1 h-3 w-3" /> Distancia
+                  </Button>
+                  <Button 
+                    onClick={() => onToggleMeasureTool('area')} 
+                    variant={activeMeasureTool === 'area' ? "secondary" : "outline"}
+                    className="text-xs h-8 border-white/30 hover:bg-white/10 text-white/90 data-[state=active]:bg-accent/30 data-[state=active]:text-white"
+                    data-state={activeMeasureTool === 'area' ? 'active' : 'inactive'}
+                    title="Medir área y perímetro (geodésico)"
+                  >
+                    <LandPlot className="mr-1 h-3 w-3" /> Área
+                  </Button>
+                </div>
+                {(activeMeasureTool || measurementCount > 0) && (
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select value={measureUnits.length} onValueChange={(value) => onMeasureUnitsChange({ ...measureUnits, length: value as LengthUnit })}>
+                        <SelectTrigger className="w-full text-xs h-8 border-white/30 bg-black/20 text-white/90 focus:ring-primary" aria-label="Unidad de distancia">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-gray-700 text-white border-gray-600">
+                          {LENGTH_UNIT_OPTIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value} className="text-xs hover:bg-gray-600 focus:bg-gray-600">{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select value={measureUnits.area} onValueChange={(value) => onMeasureUnitsChange({ ...measureUnits, area: value as AreaUnit })}>
+                        <SelectTrigger className="w-full text-xs h-8 border-white/30 bg-black/20 text-white/90 focus:ring-primary" aria-label="Unidad de área">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-gray-700 text-white border-gray-600">
+                          {AREA_UNIT_OPTIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value} className="text-xs hover:bg-gray-600 focus:bg-gray-600">{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button 
+                        onClick={onKeepMeasurements} 
+                        variant="outline" 
+                        className="text-xs h-8 border-white/30 hover:bg-white/10 text-white/90"
+                        disabled={measurementCount === 0}
+                        title="Agregar las mediciones a los dibujos, con sus valores como atributos"
+                      >
+                        <Plus className="mr-1 h-3 w-3" /> Conservar
+                      </Button>
+                      <Button 
+                        onClick={onClearMeasurements} 
+                        variant="outline" 
+                        className="text-xs h-8 border-white/30 hover:bg-red-500/20 hover:text-red-300 text-white/90"
+                        disabled={measurementCount === 0}
+                      >
+                        <Eraser className="mr-1 h-3 w-3" /> Borrar
+                      </Button>
+                    </div>
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-2">
+                  <Button 
+                    onClick={onUndo} 
+                    variant="outline" 
+                    className="text-xs h-8 border-white/30 hover:bg-white/10 text-white/90"
+                    disabled={!undoLabel}
+                    title={undoLabel ? `Deshacer: ${undoLabel} (Ctrl+Z)` : 'Nada para deshacer'}
+                  >
+                    <Undo2 className="mr-1 h-3 w-3" /> Deshacer
+                  </Button>
+                  <Button 
+                    onClick={onRedo} 
+                    variant="outline" 
+                    className="text-xs h-8 border-white/30 hover:bg-white/10 text-white/90"
+                    disabled={!redoLabel}
+                    title={redoLabel ? `Rehacer: ${redoLabel} (Ctrl+Y)` : 'Nada para rehacer'}
+                  >
+                    <Redo2 className="mr-1 h-3 w-3" /> Rehacer
+                  </Button>
+                </div>
+                <Separator className="my-2 bg-white/20" />
+                <div className="space-y-2">
+                  <Label htmlFor={`${uniqueIdPrefix}-edit-target-select`} className="text-xs font-medium text-white/90 block">Editar entidades de</Label>
+                  <div className="flex gap-2">
+                    <Select value={editTargetLayerId} onValueChange={onEditTargetLayerChange}>
+                      <SelectTrigger id={`${uniqueIdPrefix}-edit-target-select`} className="flex-1 text-xs h-8 border-white/30 bg-black/20 text-white/90 focus:ring-primary">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-gray-700 text-white border-gray-600">
+                        <SelectItem value={DRAWING_LAYER_ID} className="text-xs hover:bg-gray-600 focus:bg-gray-600">Dibujos</SelectItem>
+                        {editableLayers.map(layer => (
+                          <SelectItem key={layer.id} value={layer.id} className="text-xs hover:bg-gray-600 focus:bg-gray-600">{layer.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <Button 
+                          variant="outline" 
+                          className="text-xs h-8 border-white/30 hover:bg-white/10 text-white/90"
+                          title="Campos de atributos de la capa (editables en el Inspector)"
+                        >
+                          <ListPlus className="mr-1 h-3 w-3" /> Campos
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent side="right" align="start" className="w-72 p-3 bg-gray-800/95 text-white border-gray-600">
+                        <p className="text-xs font-semibold mb-2">Campos de atributos</p>
+                        <FieldSchemaEditor schema={editTargetFieldSchema} onChange={onEditTargetFieldSchemaChange} />
+                      </PopoverContent>
+                    </Popover>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <Button 
+                      onClick={() => onToggleEditTool('modify')} 
+                      variant={activeEditTool === 'modify' ? "secondary" : "outline"}
+                      className="text-xs h-8 border-white/30 hover:bg-white/10 text-white/90 data-[state=active]:bg-accent/30 data-[state=active]:text-white"
+                      data-state={activeEditTool === 'modify' ? 'active' : 'inactive'}
+                      title="Mover, agregar (clic en un lado) o eliminar (Alt+clic) vértices"
+                    >
+                      <Spline className="mr-1 h-3 w-3" /> Vértices
+                    </Button>
+                    <Button 
+                      onClick={() => onToggleEditTool('translate')} 
+                      variant={activeEditTool === 'translate' ? "secondary" : "outline"}
+                      className="text-xs h-8 border-white/30 hover:bg-white/10 text-white/90 data-[state=active]:bg-accent/30 data-[state=active]:text-white"
+                      data-state={activeEditTool === 'translate' ? 'active' : 'inactive'}
+                      title="Arrastrar entidades completas"
+                    >
+                      <Move className="mr-1 h-3 w-3" /> Mover
+                    </Button>
+                    <Button 
+                      onClick={() => onToggleEditTool('delete')} 
+                      variant={activeEditTool === 'delete' ? "secondary" : "outline"}
+                      className="text-xs h-8 border-white/30 hover:bg-red-500/20 hover:text-red-300 text-white/90 data-[state=active]:bg-accent/30 data-[state=active]:text-white"
+                      data-state={activeEditTool === 'delete' ? 'active' : 'inactive'}
+                      title="Clic en una entidad para eliminarla"
+                    >
+                      <Trash2 className="mr-1 h-3 w-3" /> Eliminar
+                    </Button>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`${uniqueIdPrefix}-snap-toggle`}
+                      checked={isSnapEnabled}
+                      onCheckedChange={(checked) => onSnapEnabledChange(!!checked)}
+                      className="data-[state=checked]:bg-accent data-[state=checked]:border-accent-foreground border-muted-foreground/70"
+                    />
+                    <Label htmlFor={`${uniqueIdPrefix}-snap-toggle`} className="text-xs font-medium text-white/90 cursor-pointer">
+                      Ajustar a entidades existentes (snap)
+                    </Label>
+                  </div>
+                  {activeEditTool === 'modify' && (
+                    <p className="text-xs text-gray-300/80">Arrastre un vértice para moverlo, haga clic en un lado para agregar uno y Alt+clic para eliminarlo.</p>
+                  )}
+                </div>
                 <Separator className="my-2 bg-white/20" />
                 <Button 
                   onClick={onFetchOSMDataTrigger} 
@@ -599,49 +978,62 @@ const MapControls: React.FC<MapControlsProps> = ({
                 >
                   <Eraser className="mr-2 h-3 w-3" /> Limpiar Dibujos
                 </Button>
-                <Button 
-                  onClick={onSaveDrawnFeaturesAsKML} 
-                  className="w-full bg-primary hover:bg-primary/90 text-primary-foreground text-xs h-8 mt-2"
-                  disabled={!!activeDrawTool}
-                >
-                  <Save className="mr-2 h-3 w-3" /> Guardar Dibujos (KML)
-                </Button>
+                <div className="mt-2">
+                  <ExportCrsSelect value={drawingExportProjection} onChange={setDrawingExportProjection} format={drawingExportFormat} />
+                </div>
+                <div className="flex gap-2 mt-2">
+                  <Select value={drawingExportFormat} onValueChange={setDrawingExportFormat}>
+                    <SelectTrigger className="w-28 text-xs h-8 border-white/30 bg-black/20 text-white/90 focus:ring-primary" aria-label="Formato de los dibujos">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-700 text-white border-gray-600">
+                      <SelectItem value="kml" className="text-xs hover:bg-gray-600 focus:bg-gray-600">KML</SelectItem>
+                      <SelectItem value="geojson" className="text-xs hover:bg-gray-600 focus:bg-gray-600">GeoJSON</SelectItem>
+                      <SelectItem value="gpx" className="text-xs hover:bg-gray-600 focus:bg-gray-600">GPX</SelectItem>
+                      <SelectItem value="shp" className="text-xs hover:bg-gray-600 focus:bg-gray-600">Shapefile (ZIP)</SelectItem>
+                      <SelectItem value="gpkg" className="text-xs hover:bg-gray-600 focus:bg-gray-600">GeoPackage</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button 
+                    onClick={() => onExportDrawnFeatures(drawingExportFormat, drawingExportProjection)} 
+                    className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground text-xs h-8"
+                    disabled={!!activeDrawTool}
+                  >
+                    <Save className="mr-2 h-3 w-3" /> Guardar Dibujos
+                  </Button>
+                </div>
                 
               </AccordionContent>
             </AccordionItem>
           )}
 
           {renderConfig.download && (
-            <AccordionItem value="download-osm-section" className="border-b-0 bg-white/5 rounded-md">
+            <AccordionItem value="export-section" className="border-b-0 bg-white/5 rounded-md">
               <AccordionTrigger className="p-3 hover:no-underline hover:bg-white/10 rounded-t-md data-[state=open]:rounded-b-none">
                 <SectionHeader 
-                  title="Descargar Entidades OSM"
-                  description="Exporte las capas OSM cargadas."
+                  title="Exportar Capas"
+                  description="Convierta capas y dibujos a otro formato."
                   icon={Download} 
                 />
               </AccordionTrigger>
               <AccordionContent className="p-3 pt-2 space-y-3 border-t border-white/10 bg-transparent rounded-b-md">
-                <div>
-                  <Label htmlFor={`${uniqueIdPrefix}-download-format-select`} className="text-xs font-medium text-white/90 mb-1 block">Formato de Descarga</Label>
-                  <Select value={downloadFormat} onValueChange={onDownloadFormatChange}>
-                    <SelectTrigger id={`${uniqueIdPrefix}-download-format-select`} className="w-full text-xs h-8 border-white/30 bg-black/20 text-white/90 focus:ring-primary">
-                      <SelectValue placeholder="Seleccionar formato" />
-                    </SelectTrigger>
-                    <SelectContent className="bg-gray-700 text-white border-gray-600">
-                      <SelectItem value="geojson" className="text-xs hover:bg-gray-600 focus:bg-gray-600">GeoJSON</SelectItem>
-                      <SelectItem value="kml" className="text-xs hover:bg-gray-600 focus:bg-gray-600">KML</SelectItem>
-                      <SelectItem value="shp" className="text-xs hover:bg-gray-600 focus:bg-gray-600">Shapefile (ZIP)</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
                 <Button 
-                  onClick={onDownloadOSMLayers} 
+                  onClick={() => setIsExportDialogOpen(true)} 
                   className="w-full bg-primary hover:bg-primary/90 text-primary-foreground text-xs h-8"
                   disabled={isDownloading}
                 >
                   {isDownloading ? <Loader2 className="mr-2 h-3 w-3 animate-spin" /> : <Download className="mr-2 h-3 w-3" />}
-                  {isDownloading ? 'Descargando...' : 'Descargar Capas OSM'}
+                  {isDownloading ? 'Exportando...' : 'Exportar...'}
                 </Button>
+                <ExportDialog
+                  open={isExportDialogOpen}
+                  onOpenChange={setIsExportDialogOpen}
+                  layers={exportableLayers}
+                  isExporting={isDownloading}
+                  onExport={async (request) => {
+                    if (await onExportLayers(request)) setIsExportDialogOpen(false);
+                  }}
+                />
               </AccordionContent>
             </AccordionItem>
           )}
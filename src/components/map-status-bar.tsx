@@ -0,0 +1,99 @@
+
+"use client";
+
+import React from 'react';
+import type { Map as OLMap } from 'ol';
+import type { Coordinate } from 'ol/coordinate';
+import { getPointResolution } from 'ol/proj';
+import { unByKey } from 'ol/Observable';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { COORDINATE_DISPLAY_OPTIONS, DEFAULT_COORDINATE_DISPLAY, formatMapCoordinate } from '@/lib/coordinate-format';
+
+// OGC standardized rendering pixel size (0.28 mm), used to turn a resolution into a scale.
+const METERS_PER_PIXEL = 0.00028;
+
+const scaleFormat = new Intl.NumberFormat('es-AR', { maximumFractionDigits: 0 });
+
+interface ViewState {
+  zoom: number;
+  scale: number;
+}
+
+function getViewState(map: OLMap): ViewState | null {
+  const view = map.getView();
+  const center = view.getCenter();
+  const resolution = view.getResolution();
+  if (!center || resolution === undefined) return null;
+  // Web Mercator stretches with latitude, so the ground resolution is taken at the view center.
+  const groundResolution = getPointResolution(view.getProjection(), resolution, center, 'm');
+  return { zoom: view.getZoom() ?? 0, scale: groundResolution / METERS_PER_PIXEL };
+}
+
+interface MapStatusBarProps {
+  map: OLMap | null;
+}
+
+const MapStatusBar: React.FC<MapStatusBarProps> = ({ map }) => {
+  const [displayId, setDisplayId] = React.useState(DEFAULT_COORDINATE_DISPLAY);
+  const [cursorCoordinate, setCursorCoordinate] = React.useState<Coordinate | null>(null);
+  const [viewState, setViewState] = React.useState<ViewState | null>(null);
+
+  React.useEffect(() => {
+    if (!map) return;
+    setViewState(getViewState(map));
+    const keys = [
+      map.on('pointermove', event => {
+        if (!event.dragging) setCursorCoordinate(event.coordinate);
+      }),
+      map.on('moveend', () => setViewState(getViewState(map))),
+    ];
+    const viewport = map.getViewport();
+    const handlePointerLeave = () => setCursorCoordinate(null);
+    viewport.addEventListener('pointerleave', handlePointerLeave);
+    return () => {
+      unByKey(keys);
+      viewport.removeEventListener('pointerleave', handlePointerLeave);
+    };
+  }, [map]);
+
+  const coordinateText = React.useMemo(() => {
+    if (!cursorCoordinate) return '—';
+    try {
+      return formatMapCoordinate(cursorCoordinate, displayId);
+    } catch (error) {
+      console.error("Error al transformar la coordenada del cursor:", error);
+      return 'Fuera del sistema de referencia';
+    }
+  }, [cursorCoordinate, displayId]);
+
+  return (
+    <footer className="flex h-9 shrink-0 items-center gap-4 bg-gray-800/90 px-3 text-xs text-white/90">
+      <Select value={displayId} onValueChange={setDisplayId}>
+        <SelectTrigger className="h-7 w-56 text-xs border-white/30 bg-black/20 text-white/90" aria-label="Sistema de referencia de las coordenadas">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-gray-700 text-white border-gray-600">
+          {COORDINATE_DISPLAY_OPTIONS.map(option => (
+            <SelectItem key={option.id} value={option.id} className="text-xs hover:bg-gray-600 focus:bg-gray-600">{option.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <span className="min-w-0 flex-1 truncate font-mono" title="Coordenadas del cursor">{coordinateText}</span>
+      {viewState && (
+        <>
+          <span title="Nivel de zoom">Zoom {viewState.zoom.toFixed(1)}</span>
+          <span title="Escala aproximada en el centro del mapa">Escala 1:{scaleFormat.format(viewState.scale)}</span>
+        </>
+      )}
+    </footer>
+  );
+};
+
+export default MapStatusBar;
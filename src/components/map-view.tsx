@@ -1,17 +1,20 @@
 
 "use client";
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Map as OLMap, View } from 'ol';
 import TileLayer from 'ol/layer/Tile';
 import OSM from 'ol/source/OSM';
 import XYZ from 'ol/source/XYZ';
 import {defaults as defaultControls} from 'ol/control';
 import { fromLonLat } from 'ol/proj';
+import { Upload } from 'lucide-react';
+import { readUrlState } from '@/lib/url-state';
 
 interface MapViewProps {
   mapRef: React.MutableRefObject<OLMap | null>;
   setMapInstance: (map: OLMap) => void;
+  onDropFiles?: (files: File[]) => void;
 }
 
 export const BASE_LAYER_DEFINITIONS = [
@@ -51,9 +54,18 @@ export const BASE_LAYER_DEFINITIONS = [
   },
 ] as const;
 
+const DEFAULT_VIEW_CENTER: [number, number] = [-60.0, -36.5];
+const DEFAULT_VIEW_ZOOM = 7;
 
-const MapView: React.FC<MapViewProps> = ({ mapRef, setMapInstance }) => {
+function isFileDrag(event: React.DragEvent): boolean {
+  return Array.from(event.dataTransfer.types).includes('Files');
+}
+
+const MapView: React.FC<MapViewProps> = ({ mapRef, setMapInstance, onDropFiles }) => {
   const mapElementRef = useRef<HTMLDivElement>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  // dragenter/dragleave also fire when moving between the map's own elements.
+  const dragDepthRef = useRef(0);
 
   useEffect(() => {
     if (!mapElementRef.current || mapRef.current) { 
@@ -61,13 +73,15 @@ const MapView: React.FC<MapViewProps> = ({ mapRef, setMapInstance }) => {
     }
 
     const initialBaseLayers = BASE_LAYER_DEFINITIONS.map(def => def.createLayer());
+    // A shared link (see lib/url-state) opens the map where the sender left it.
+    const urlState = readUrlState();
 
     const map = new OLMap({
       target: mapElementRef.current,
       layers: [...initialBaseLayers], 
       view: new View({
-        center: fromLonLat([-60.0, -36.5], 'EPSG:3857'),
-        zoom: 7,
+        center: fromLonLat(urlState.center ?? DEFAULT_VIEW_CENTER, 'EPSG:3857'),
+        zoom: urlState.zoom ?? DEFAULT_VIEW_ZOOM,
         projection: 'EPSG:3857', 
         constrainResolution: true, 
       }),
@@ -93,7 +107,52 @@ const MapView: React.FC<MapViewProps> = ({ mapRef, setMapInstance }) => {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // mapRef and setMapInstance are stable from useCallback
 
-  return <div ref={mapElementRef} className="w-full h-full bg-gray-200" />;
+  const handleDragEnter = (event: React.DragEvent) => {
+    if (!onDropFiles || !isFileDrag(event)) return;
+    event.preventDefault();
+    dragDepthRef.current++;
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!onDropFiles || !isFileDrag(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    if (!onDropFiles || !isFileDrag(event)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    if (!onDropFiles || !isFileDrag(event)) return;
+    event.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingFiles(false);
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length > 0) onDropFiles(files);
+  };
+
+  return (
+    <div
+      className="relative w-full h-full"
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      <div ref={mapElementRef} className="w-full h-full bg-gray-200" />
+      {isDraggingFiles && (
+        <div className="pointer-events-none absolute inset-2 z-20 flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-primary bg-primary/20 text-white">
+          <Upload className="h-8 w-8 mb-2" />
+          <p className="text-sm font-semibold">Suelte los archivos para importarlos</p>
+          <p className="text-xs text-white/80">KML, KMZ, GPX, GeoJSON, GeoPackage, CSV, XLSX, Shapefiles (ZIP o .shp, .dbf, .prj, .cpg)</p>
+        </div>
+      )}
+    </div>
+  );
 };
 
 export default MapView;
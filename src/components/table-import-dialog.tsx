@@ -0,0 +1,309 @@
+
+"use client";
+
+import React from 'react';
+import { useId } from 'react';
+import type { Feature } from 'ol';
+import { createEmpty, extend, isEmpty } from 'ol/extent';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  DELIMITER_OPTIONS,
+  buildTableFeatures,
+  detectDelimiter,
+  guessGeometryColumns,
+  parseDelimitedText,
+  readXlsxRows,
+  toTableData,
+  type DecimalSeparator,
+  type Delimiter,
+  type GeometryColumnMapping,
+  type TableCell,
+} from '@/lib/tabular-data';
+import { EXPORT_CRS_OPTIONS, isLonLatExtent } from '@/lib/projections';
+
+export interface TableImportSource {
+  fileName: string;
+  text?: string; // CSV/TSV contents
+  workbook?: ArrayBuffer; // XLSX contents
+  sheetNames?: string[];
+}
+
+const PREVIEW_ROWS = 5;
+const NO_COLUMN = '-1';
+
+interface TableImportDialogProps {
+  source: TableImportSource | null;
+  onCancel: () => void;
+  onImport: (features: Feature[], projection: string) => void; // features in `projection`
+}
+
+function formatCell(value: TableCell | undefined): string {
+  if (value instanceof Date) return value.toISOString();
+  return value === null || value === undefined ? '' : String(value);
+}
+
+const TableImportDialog: React.FC<TableImportDialogProps> = ({ source, onCancel, onImport }) => {
+  const idPrefix = useId();
+  const [delimiter, setDelimiter] = React.useState<Delimiter>(',');
+  const [sheet, setSheet] = React.useState('');
+  const [sheetRows, setSheetRows] = React.useState<TableCell[][]>([]);
+  const [isLoadingSheet, setIsLoadingSheet] = React.useState(false);
+  const [hasHeaderRow, setHasHeaderRow] = React.useState(true);
+  const [mode, setMode] = React.useState<'xy' | 'wkt'>('xy');
+  const [xColumn, setXColumn] = React.useState(NO_COLUMN);
+  const [yColumn, setYColumn] = React.useState(NO_COLUMN);
+  const [wktColumn, setWktColumn] = React.useState(NO_COLUMN);
+  const [decimalSeparator, setDecimalSeparator] = React.useState<DecimalSeparator>('.');
+  const [projection, setProjection] = React.useState('EPSG:4326');
+
+  // Defaults for each new file: detected delimiter, and a comma decimal mark when values are
+  // split by semicolons, as a Spanish-locale Excel saves them.
+  React.useEffect(() => {
+    if (!source) return;
+    const detected = source.text !== undefined
+      ? (source.fileName.toLowerCase().endsWith('.tsv') ? '\t' : detectDelimiter(source.text))
+      : ',';
+    setDelimiter(detected);
+    setDecimalSeparator(detected === ';' ? ',' : '.');
+    setSheet(source.sheetNames?.[0] ?? '');
+    setHasHeaderRow(true);
+  }, [source]);
+
+  React.useEffect(() => {
+    if (!source?.workbook || !sheet) {
+      setSheetRows([]);
+      return;
+    }
+    let cancelled = false;
+    setIsLoadingSheet(true);
+    readXlsxRows(source.workbook, sheet)
+      .then(rows => { if (!cancelled) setSheetRows(rows); })
+      .catch(error => {
+        console.error("Error leyendo la hoja de cálculo:", error);
+        if (!cancelled) setSheetRows([]);
+      })
+      .finally(() => { if (!cancelled) setIsLoadingSheet(false); });
+    return () => { cancelled = true; };
+  }, [source, sheet]);
+
+  const rawRows = React.useMemo<TableCell[][]>(
+    () => source?.text !== undefined ? parseDelimitedText(source.text, delimiter) : sheetRows,
+    [source, delimiter, sheetRows]
+  );
+  const table = React.useMemo(() => toTableData(rawRows, hasHeaderRow), [rawRows, hasHeaderRow]);
+  const headersKey = table.headers.join('\u0000');
+
+  React.useEffect(() => {
+    const guess = guessGeometryColumns(table.headers);
+    setXColumn(String(guess.xColumn));
+    setYColumn(String(guess.yColumn));
+    setWktColumn(String(guess.wktColumn));
+    setMode(guess.wktColumn >= 0 && (guess.xColumn < 0 || guess.yColumn < 0) ? 'wkt' : 'xy');
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [headersKey]);
+
+  const mapping = React.useMemo<GeometryColumnMapping | null>(() => {
+    if (mode === 'wkt') return wktColumn === NO_COLUMN ? null : { mode, wktColumn: Number(wktColumn) };
+    if (xColumn === NO_COLUMN || yColumn === NO_COLUMN) return null;
+    return { mode, xColumn: Number(xColumn), yColumn: Number(yColumn), decimalSeparator };
+  }, [mode, xColumn, yColumn, wktColumn, decimalSeparator]);
+
+  const result = React.useMemo(
+    () => mapping ? buildTableFeatures(table, mapping, hasHeaderRow ? 2 : 1) : null,
+    [table, mapping, hasHeaderRow]
+  );
+
+  const looksProjected = React.useMemo(() => {
+    if (!result || projection !== 'EPSG:4326') return false;
+    const extent = createEmpty();
+    result.features.forEach(feature => extend(extent, feature.getGeometry()!.getExtent()));
+    return !isEmpty(extent) && !isLonLatExtent(extent);
+  }, [result, projection]);
+
+  const canImport = !!result && result.features.length > 0 && !isLoadingSheet;
+
+  const handleImport = () => {
+    if (!canImport || !result) return;
+    onImport(result.features as Feature[], projection);
+  };
+
+  const columnSelect = (id: string, label: string, value: string, onChange: (value: string) => void) => (
+    <div className="space-y-1">
+      <Label htmlFor={`${idPrefix}-${id}`} className="text-xs">{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={`${idPrefix}-${id}`} className="w-full text-xs h-8">
+          <SelectValue placeholder="Seleccionar columna" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_COLUMN} className="text-xs">(ninguna)</SelectItem>
+          {table.headers.map((header, i) => (
+            <SelectItem key={`${header}-${i}`} value={String(i)} className="text-xs">{header}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={!!source} onOpenChange={(open) => { if (!open) onCancel(); }}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Importar Tabla</DialogTitle>
+          <DialogDescription>
+            Indique qué columnas de <strong>{source?.fileName}</strong> contienen la geometría. Las demás columnas se guardan como atributos.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-3">
+          {source?.text !== undefined ? (
+            <div className="space-y-1">
+              <Label htmlFor={`${idPrefix}-delimiter`} className="text-xs">Separador de columnas</Label>
+              <Select value={delimiter} onValueChange={(value) => setDelimiter(value as Delimiter)}>
+                <SelectTrigger id={`${idPrefix}-delimiter`} className="w-full text-xs h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DELIMITER_OPTIONS.map(option => (
+                    <SelectItem key={option.label} value={option.value} className="text-xs">{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <Label htmlFor={`${idPrefix}-sheet`} className="text-xs">Hoja</Label>
+              <Select value={sheet} onValueChange={setSheet}>
+                <SelectTrigger id={`${idPrefix}-sheet`} className="w-full text-xs h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(source?.sheetNames ?? []).map(name => (
+                    <SelectItem key={name} value={name} className="text-xs">{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor={`${idPrefix}-decimal`} className="text-xs">Separador decimal</Label>
+            <Select value={decimalSeparator} onValueChange={(value) => setDecimalSeparator(value as DecimalSeparator)} disabled={mode === 'wkt'}>
+              <SelectTrigger id={`${idPrefix}-decimal`} className="w-full text-xs h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="." className="text-xs">Punto (-34.6037)</SelectItem>
+                <SelectItem value="," className="text-xs">Coma (-34,6037)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${idPrefix}-crs`} className="text-xs">Sistema de referencia</Label>
+            <Select value={projection} onValueChange={setProjection}>
+              <SelectTrigger id={`${idPrefix}-crs`} className="w-full text-xs h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_CRS_OPTIONS.map(option => (
+                  <SelectItem key={option.code} value={option.code} className="text-xs">{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-6">
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as 'xy' | 'wkt')} className="flex gap-4">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="xy" id={`${idPrefix}-mode-xy`} />
+              <Label htmlFor={`${idPrefix}-mode-xy`} className="text-xs font-normal cursor-pointer">Columnas X / Y</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="wkt" id={`${idPrefix}-mode-wkt`} />
+              <Label htmlFor={`${idPrefix}-mode-wkt`} className="text-xs font-normal cursor-pointer">Columna WKT</Label>
+            </div>
+          </RadioGroup>
+          <div className="flex items-center gap-2">
+            <Checkbox id={`${idPrefix}-header`} checked={hasHeaderRow} onCheckedChange={(checked) => setHasHeaderRow(!!checked)} />
+            <Label htmlFor={`${idPrefix}-header`} className="text-xs font-normal cursor-pointer">La primera fila tiene los nombres de columna</Label>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          {mode === 'xy' ? (
+            <>
+              {columnSelect('x', 'X / Longitud / Este', xColumn, setXColumn)}
+              {columnSelect('y', 'Y / Latitud / Norte', yColumn, setYColumn)}
+            </>
+          ) : (
+            columnSelect('wkt', 'Geometría WKT', wktColumn, setWktColumn)
+          )}
+        </div>
+
+        <div className="max-h-40 overflow-auto rounded-md border">
+          <table className="w-full text-xs">
+            <thead className="bg-muted">
+              <tr>
+                {table.headers.map((header, i) => (
+                  <th key={`${header}-${i}`} className="whitespace-nowrap px-2 py-1 text-left font-medium">{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-t">
+                  {table.headers.map((header, i) => (
+                    <td key={`${header}-${i}`} className="max-w-[12rem] truncate whitespace-nowrap px-2 py-1">{formatCell(row[i])}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="space-y-1 text-xs">
+          {isLoadingSheet ? (
+            <p className="text-muted-foreground">Leyendo hoja...</p>
+          ) : result ? (
+            <p className="text-muted-foreground">{result.features.length} de {table.rows.length} fila(s) con geometría válida.</p>
+          ) : (
+            <p className="text-muted-foreground">Seleccione las columnas de la geometría.</p>
+          )}
+          {looksProjected && (
+            <p className="text-destructive">Las coordenadas no parecen latitud/longitud. Verifique el sistema de referencia y las columnas X/Y.</p>
+          )}
+          {result && result.errors.length > 0 && (
+            <ul className="max-h-20 overflow-y-auto text-destructive">
+              {result.errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancelar</Button>
+          <Button onClick={handleImport} disabled={!canImport}>Importar capa</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TableImportDialog;
@@ -0,0 +1,164 @@
+
+"use client";
+
+import React from 'react';
+import { useId } from 'react';
+import type { Feature as OLFeature } from 'ol';
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import LayerLegend from '@/components/layer-legend';
+import {
+  CLASSIFICATION_METHOD_OPTIONS,
+  COLOR_RAMPS,
+  toNumericValue,
+  type ClassificationMethod,
+} from '@/lib/classification';
+import { buildCategorizedStyle, buildGraduatedStyle, type LayerStyle } from '@/lib/layer-style';
+
+interface ThematicStyleEditorProps {
+  mode: 'categorized' | 'graduated';
+  style: LayerStyle;
+  features: OLFeature<any>[];
+  onChange: (style: LayerStyle) => void;
+}
+
+const selectTriggerClassName = "w-full text-xs h-8 border-white/30 bg-black/20 text-white/90 focus:ring-primary";
+const selectItemClassName = "text-xs hover:bg-gray-600 focus:bg-gray-600";
+
+const ThematicStyleEditor: React.FC<ThematicStyleEditorProps> = ({ mode, style, features, onChange }) => {
+  const idPrefix = useId();
+  const currentThematic = style.thematic?.mode === mode ? style.thematic : undefined;
+
+  const [field, setField] = React.useState<string>(currentThematic?.field ?? '');
+  const [method, setMethod] = React.useState<ClassificationMethod>(
+    currentThematic?.mode === 'graduated' ? currentThematic.method : 'equal-interval'
+  );
+  const [rampId, setRampId] = React.useState<string>(
+    currentThematic?.mode === 'graduated' ? currentThematic.rampId : 'blues'
+  );
+  const [classCount, setClassCount] = React.useState<number>(
+    currentThematic?.mode === 'graduated' ? Math.max(currentThematic.classes.length, 2) : 5
+  );
+
+  const fields = React.useMemo(() => {
+    const allKeys = new Set<string>();
+    const numericKeys = new Set<string>();
+    features.forEach(feature => {
+      const geometryName = feature.getGeometryName();
+      Object.entries(feature.getProperties()).forEach(([key, value]) => {
+        if (key === 'geometry' || key === geometryName || (value !== null && typeof value === 'object')) return;
+        allKeys.add(key);
+        if (toNumericValue(value) !== null) numericKeys.add(key);
+      });
+    });
+    const sortedKeys = Array.from(allKeys).sort();
+    return mode === 'graduated' ? sortedKeys.filter(key => numericKeys.has(key)) : sortedKeys;
+  }, [features, mode]);
+
+  const applyThematic = () => {
+    if (!field) return;
+    const thematic = mode === 'categorized'
+      ? buildCategorizedStyle(features, field)
+      : buildGraduatedStyle(features, field, method, classCount, rampId);
+    onChange({ ...style, thematic });
+  };
+
+  const clearThematic = () => {
+    const { thematic: _removed, ...baseStyle } = style;
+    onChange(baseStyle);
+  };
+
+  if (fields.length === 0) {
+    return (
+      <p className="text-xs text-center text-gray-300/80 py-2">
+        {mode === 'graduated' ? 'La capa no tiene atributos numéricos.' : 'La capa no tiene atributos.'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-field`} className="text-xs font-medium text-white/90">Atributo</Label>
+        <Select value={field} onValueChange={setField}>
+          <SelectTrigger id={`${idPrefix}-field`} className={selectTriggerClassName}>
+            <SelectValue placeholder="Seleccionar atributo" />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-700 text-white border-gray-600 max-h-60">
+            {fields.map(key => (
+              <SelectItem key={key} value={key} className={selectItemClassName}>{key}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {mode === 'graduated' && (
+        <>
+          <div className="space-y-1">
+            <Label htmlFor={`${idPrefix}-method`} className="text-xs font-medium text-white/90">Método</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as ClassificationMethod)}>
+              <SelectTrigger id={`${idPrefix}-method`} className={selectTriggerClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-700 text-white border-gray-600">
+                {CLASSIFICATION_METHOD_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value} className={selectItemClassName}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${idPrefix}-ramp`} className="text-xs font-medium text-white/90">Rampa de color</Label>
+            <Select value={rampId} onValueChange={setRampId}>
+              <SelectTrigger id={`${idPrefix}-ramp`} className={selectTriggerClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-700 text-white border-gray-600">
+                {Object.entries(COLOR_RAMPS).map(([id, ramp]) => (
+                  <SelectItem key={id} value={id} className={selectItemClassName}>
+                    <span className="flex items-center gap-2">
+                      <span
+                        className="inline-block h-2.5 w-10 rounded-sm"
+                        style={{ background: `linear-gradient(to right, ${ramp.stops.join(', ')})` }}
+                      />
+                      {ramp.label}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs font-medium text-white/90">Clases</Label>
+              <span className="text-xs text-white/60">{classCount}</span>
+            </div>
+            <Slider min={2} max={9} step={1} value={[classCount]} onValueChange={([value]) => setClassCount(value)} />
+          </div>
+        </>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button onClick={applyThematic} disabled={!field} className="text-xs h-8 bg-primary/70 hover:bg-primary/90 text-primary-foreground">
+          Aplicar
+        </Button>
+        <Button onClick={clearThematic} disabled={!style.thematic} variant="outline" className="text-xs h-8 border-white/30 hover:bg-white/10 text-white/90">
+          Quitar
+        </Button>
+      </div>
+
+      {currentThematic && <LayerLegend style={style} />}
+    </div>
+  );
+};
+
+export default ThematicStyleEditor;
@@ -0,0 +1,71 @@
+"use client"
+
+import * as React from "react"
+
+const HISTORY_LIMIT = 100
+
+/**
+ * A reversible operation. `redo` re-applies it after an `undo`; `dispose` releases what `undo`
+ * would need, once the command drops out of the history without having been undone.
+ */
+export interface HistoryCommand {
+  label: string
+  undo: () => void
+  redo: () => void
+  dispose?: () => void
+}
+
+export function useCommandHistory(limit = HISTORY_LIMIT) {
+  const undoStackRef = React.useRef<HistoryCommand[]>([])
+  const redoStackRef = React.useRef<HistoryCommand[]>([])
+  // The stacks live in refs so commands can be pushed from OpenLayers event handlers;
+  // this counter only triggers re-renders of the undo/redo controls.
+  const [, setRevision] = React.useState(0)
+  const notify = React.useCallback(() => setRevision(prev => prev + 1), [])
+
+  const push = React.useCallback((command: HistoryCommand) => {
+    undoStackRef.current.push(command)
+    if (undoStackRef.current.length > limit) undoStackRef.current.shift()?.dispose?.()
+    redoStackRef.current = []
+    notify()
+  }, [limit, notify])
+
+  const undo = React.useCallback((): HistoryCommand | null => {
+    const command = undoStackRef.current.pop()
+    if (!command) return null
+    command.undo()
+    redoStackRef.current.push(command)
+    notify()
+    return command
+  }, [notify])
+
+  const redo = React.useCallback((): HistoryCommand | null => {
+    const command = redoStackRef.current.pop()
+    if (!command) return null
+    command.redo()
+    undoStackRef.current.push(command)
+    notify()
+    return command
+  }, [notify])
+
+  const clear = React.useCallback(() => {
+    undoStackRef.current.forEach(command => command.dispose?.())
+    undoStackRef.current = []
+    redoStackRef.current = []
+    notify()
+  }, [notify])
+
+  const undoStack = undoStackRef.current
+  const redoStack = redoStackRef.current
+
+  return {
+    push,
+    undo,
+    redo,
+    clear,
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
+    undoLabel: undoStack[undoStack.length - 1]?.label ?? null,
+    redoLabel: redoStack[redoStack.length - 1]?.label ?? null,
+  }
+}
@@ -0,0 +1,412 @@
+"use client"
+
+import * as React from "react"
+import type { Feature as OLFeature } from "ol"
+import VectorLayer from "ol/layer/Vector"
+import VectorSource from "ol/source/Vector"
+import type { Extent } from "ol/extent"
+
+import type { MapLayer } from "@/components/geo-mapper-client"
+import type { CrsPromptRequest } from "@/components/crs-prompt-dialog"
+import type { TableImportSource } from "@/components/table-import-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { decodeFeatures } from "@/lib/feature-buffers"
+import {
+  getFeaturesExtent,
+  getFileBaseName,
+  getFileExtension,
+  groupImportFiles,
+  isTableFile,
+  MAP_PROJECTION,
+  readImportArchive,
+  readImportDataset,
+  throttleImportProgress,
+  type ImportDataset,
+  type ImportedDataset,
+  type ImportedLayerData,
+  type ImportProgress,
+  type ImportProgressCallback,
+} from "@/lib/layer-import"
+import type {
+  ImportWorkerRequest,
+  ImportWorkerResponse,
+  ImportWorkerResult,
+  ImportWorkerTask,
+} from "@/lib/layer-import.worker"
+import { getProjectionDefinition, isLonLatExtent, resolveProjection } from "@/lib/projections"
+import { decodeText, readXlsxSheetNames } from "@/lib/tabular-data"
+
+export type ImportStatus = "pending" | "processing" | "done" | "cancelled" | "error"
+
+/** Progress of one dataset of an import: a file, or a set of loose shapefile parts. */
+export interface ImportFileReport {
+  id: string
+  name: string
+  status: ImportStatus
+  message?: string
+  progress?: ImportProgress // while processing
+}
+
+const IMPORT_CANCELLED_MESSAGE = "Importación cancelada."
+
+interface TableImportResult {
+  features: OLFeature<any>[] // in `projection`
+  projection: string
+}
+
+/** A layer read from a dataset, its features still in the coordinates of the file. */
+interface PendingLayer {
+  name: string
+  featureCount: number
+  extent: Extent // of the raw coordinates
+  projection: string | null | undefined // as declared, see ImportedLayerData
+  objectUrls?: string[]
+  // Hands the features over, moved from `dataProjection` to the map projection.
+  readFeatures: (dataProjection: string) => Promise<OLFeature<any>[]>
+}
+
+interface PendingDataset {
+  layers: PendingLayer[]
+  warnings: string[]
+  skippedLayerCount: number
+}
+
+function toPendingLayer(data: ImportedLayerData): PendingLayer {
+  return {
+    name: data.name,
+    featureCount: data.features.length,
+    extent: getFeaturesExtent(data.features),
+    projection: data.projection,
+    objectUrls: data.objectUrls,
+    readFeatures: async dataProjection => {
+      if (dataProjection !== MAP_PROJECTION) {
+        data.features.forEach(feature => feature.getGeometry()?.transform(dataProjection, MAP_PROJECTION))
+      }
+      return data.features
+    },
+  }
+}
+
+function toPendingDataset(dataset: ImportedDataset): PendingDataset {
+  return { ...dataset, layers: dataset.layers.map(toPendingLayer) }
+}
+
+/** Appends what was left out of a dataset to its report message. */
+function formatReportMessage(summary: string, warnings: string[]): string {
+  return `${[summary, ...warnings].join("; ")}.`
+}
+
+function revokeObjectUrls(layers: PendingLayer[]) {
+  new Set(layers.flatMap(layer => layer.objectUrls ?? [])).forEach(url => URL.revokeObjectURL(url))
+}
+
+function createImportWorker(): Worker | null {
+  if (typeof Worker === "undefined") return null
+  try {
+    return new Worker(new URL("../lib/layer-import.worker.ts", import.meta.url), { type: "module" })
+  } catch (error) {
+    console.error("No se pudo iniciar el worker de importación:", error)
+    return null
+  }
+}
+
+async function readTableSource(file: File): Promise<TableImportSource> {
+  if (getFileExtension(file.name) === "xlsx") {
+    const workbook = await file.arrayBuffer()
+    const sheetNames = await readXlsxSheetNames(workbook)
+    if (sheetNames.length === 0) throw new Error(`El libro ${file.name} no contiene hojas.`)
+    return { fileName: file.name, workbook, sheetNames }
+  }
+  return { fileName: file.name, text: decodeText(await file.arrayBuffer()) }
+}
+
+/**
+ * Imports any mix of supported files, one layer per dataset, one dataset at a time.
+ * Files that need no DOM are parsed and reprojected in a worker so large ones don't freeze the map.
+ * The CRS prompt and the table column mapping are asked for through dialogs whose
+ * state this hook exposes; each dataset's outcome and progress are kept in `reports`.
+ */
+export function useLayerImport(onAddLayer: (layer: MapLayer) => void) {
+  const { toast } = useToast()
+  const idPrefix = React.useId()
+  const [reports, setReports] = React.useState<ImportFileReport[]>([])
+  const [isImporting, setIsImporting] = React.useState(false)
+  // A second drop can arrive before the state update of the first one renders.
+  const isImportingRef = React.useRef(false)
+  const isCancelRequestedRef = React.useRef(false)
+
+  const workerRef = React.useRef<Worker | null>(null)
+  const hasWorkerLoadedRef = React.useRef(false)
+  const isWorkerUnavailableRef = React.useRef(false)
+  const workerRequestIdRef = React.useRef(0)
+  const cancelWorkerRequestRef = React.useRef<(() => void) | null>(null)
+
+  const [crsPromptRequest, setCrsPromptRequest] = React.useState<CrsPromptRequest | null>(null)
+  const crsPromptResolverRef = React.useRef<((projection: string | null) => void) | null>(null)
+  const [tableImportSource, setTableImportSource] = React.useState<TableImportSource | null>(null)
+  const tableImportResolverRef = React.useRef<((result: TableImportResult | null) => void) | null>(null)
+
+  const promptForProjection = React.useCallback((request: CrsPromptRequest) => new Promise<string | null>(resolve => {
+    crsPromptResolverRef.current = resolve
+    setCrsPromptRequest(request)
+  }), [])
+
+  const resolveCrsPrompt = React.useCallback((projection: string | null) => {
+    crsPromptResolverRef.current?.(projection)
+    crsPromptResolverRef.current = null
+    setCrsPromptRequest(null)
+  }, [])
+
+  const promptForTableMapping = React.useCallback((source: TableImportSource) => new Promise<TableImportResult | null>(resolve => {
+    tableImportResolverRef.current = resolve
+    setTableImportSource(source)
+  }), [])
+
+  const resolveTableImport = React.useCallback((result: TableImportResult | null) => {
+    tableImportResolverRef.current?.(result)
+    tableImportResolverRef.current = null
+    setTableImportSource(null)
+  }, [])
+
+  const terminateWorker = React.useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+  }, [])
+
+  React.useEffect(() => terminateWorker, [terminateWorker])
+
+  /**
+   * Hands a task to the worker. Resolves to null when the worker can't be started or doesn't
+   * load, for the dataset to be read on the main thread instead.
+   */
+  const runWorkerTask = React.useCallback((task: ImportWorkerTask, onProgress: ImportProgressCallback) => new Promise<ImportWorkerResult | null>((resolve, reject) => {
+    if (!workerRef.current && !isWorkerUnavailableRef.current) {
+      workerRef.current = createImportWorker()
+      hasWorkerLoadedRef.current = false
+    }
+    const worker = workerRef.current
+    if (!worker) {
+      resolve(null)
+      return
+    }
+    const id = ++workerRequestIdRef.current
+    const settle = () => {
+      worker.onmessage = null
+      worker.onerror = null
+      cancelWorkerRequestRef.current = null
+    }
+    worker.onmessage = (event: MessageEvent<ImportWorkerResponse>) => {
+      const response = event.data
+      if (response.id !== id) return
+      hasWorkerLoadedRef.current = true
+      if (response.type === "progress") {
+        onProgress(response.progress)
+        return
+      }
+      settle()
+      if (response.type === "error") {
+        reject(new Error(response.message))
+        return
+      }
+      resolve(response.result)
+    }
+    worker.onerror = event => {
+      event.preventDefault()
+      settle()
+      terminateWorker()
+      // A worker that never answered didn't load; one that did crashed on this file.
+      if (hasWorkerLoadedRef.current) {
+        reject(new Error(event.message || "El procesamiento del archivo se interrumpió."))
+      } else {
+        console.error("No se pudo cargar el worker de importación:", event.message)
+        isWorkerUnavailableRef.current = true
+        resolve(null)
+      }
+    }
+    cancelWorkerRequestRef.current = () => {
+      settle()
+      terminateWorker()
+      reject(new Error(IMPORT_CANCELLED_MESSAGE))
+    }
+    const request: ImportWorkerRequest = { id, task }
+    worker.postMessage(request)
+  }), [terminateWorker])
+
+  /**
+   * Reads a dataset in the worker, which keeps its layers to reproject them once their CRS is
+   * settled; their geometries are then transferred back rather than copied, and decoded a chunk
+   * at a time. A KMZ comes back unpacked, its KML read here. Resolves to null when the dataset
+   * has to be read on the main thread: the format needs a DOM, or the worker can't be started.
+   */
+  const readDatasetInWorker = React.useCallback(async (dataset: ImportDataset, onProgress: ImportProgressCallback): Promise<PendingDataset | null> => {
+    const result = await runWorkerTask({ type: "read", dataset }, onProgress)
+    if (!result || result.type === "unsupported") return null
+    if (result.type === "archive") {
+      onProgress({ stage: "parsing", fraction: null })
+      return toPendingDataset(await readImportArchive(result.archive))
+    }
+    if (result.type !== "layers") throw new Error("Respuesta inesperada del worker de importación.")
+    return {
+      layers: result.layers.map((layer, layerIndex) => ({
+        ...layer,
+        projection: layer.projection ? resolveProjection(layer.projection) : layer.projection,
+        readFeatures: async dataProjection => {
+          const task: ImportWorkerTask = { type: "project", layerIndex, projection: getProjectionDefinition(dataProjection) }
+          const projected = await runWorkerTask(task, onProgress)
+          if (projected?.type !== "features") throw new Error("El procesamiento del archivo se interrumpió.")
+          return decodeFeatures(projected.features, fraction => onProgress({ stage: "decoding", fraction }))
+        },
+      })),
+      warnings: result.warnings,
+      skippedLayerCount: result.skippedLayerCount,
+    }
+  }, [runWorkerTask])
+
+  /**
+   * The CRS of a layer's raw coordinates. The user is asked when the file declares none and
+   * they don't look like lon/lat, or when the declared one can't be resolved.
+   * Resolves to null when the user cancels.
+   */
+  const chooseLayerProjection = React.useCallback(async (layer: PendingLayer): Promise<string | null> => {
+    if (layer.projection) return layer.projection
+    if (layer.projection === undefined && (layer.featureCount === 0 || isLonLatExtent(layer.extent))) return "EPSG:4326"
+    return promptForProjection({
+      fileName: layer.name,
+      reason: layer.projection === null
+        ? "No se reconoce el sistema de referencia declarado en el archivo."
+        : "El archivo no declara su sistema de referencia y sus coordenadas no son latitud/longitud.",
+    })
+  }, [promptForProjection])
+
+  const importFiles = React.useCallback(async (files: File[]) => {
+    if (files.length === 0) return
+    if (isImportingRef.current) {
+      toast({ title: "Importación en Curso", description: "Espere a que termine la importación actual.", variant: "destructive" })
+      return
+    }
+    isImportingRef.current = true
+    isCancelRequestedRef.current = false
+    isWorkerUnavailableRef.current = false
+    setIsImporting(true)
+
+    const importId = `${idPrefix}-${Date.now()}`
+    const datasets = groupImportFiles(files)
+    const updateReport = (index: number, changes: Partial<ImportFileReport>) => {
+      setReports(prev => prev.map((report, i) => (i === index ? { ...report, ...changes } : report)))
+    }
+    setReports(datasets.map((dataset, index) => ({ id: `${importId}-${index}`, name: dataset.name, status: "pending" })))
+
+    let addedLayerCount = 0
+    let failedCount = 0
+    try {
+      for (const [index, dataset] of datasets.entries()) {
+        if (isCancelRequestedRef.current) {
+          updateReport(index, { status: "cancelled", message: IMPORT_CANCELLED_MESSAGE })
+          continue
+        }
+        updateReport(index, { status: "processing" })
+        const onProgress = throttleImportProgress(progress => updateReport(index, { progress }))
+        try {
+          let pending: PendingDataset
+          if (isTableFile(dataset.name)) {
+            const result = await promptForTableMapping(await readTableSource(dataset.files[0]))
+            if (!result) {
+              updateReport(index, {
+                status: "cancelled",
+                message: isCancelRequestedRef.current ? IMPORT_CANCELLED_MESSAGE : "No se asignaron las columnas de la geometría.",
+              })
+              continue
+            }
+            pending = {
+              layers: [toPendingLayer({ name: getFileBaseName(dataset.name), ...result })],
+              warnings: [],
+              skippedLayerCount: 0,
+            }
+          } else {
+            pending = (await readDatasetInWorker(dataset, onProgress)) ?? toPendingDataset(await readImportDataset(dataset, onProgress))
+          }
+          const layers = pending.layers.filter(layer => layer.featureCount > 0)
+          if (isCancelRequestedRef.current || layers.length === 0) revokeObjectUrls(pending.layers)
+          // Reading on the main thread can't be interrupted; its result is dropped instead.
+          if (isCancelRequestedRef.current) {
+            updateReport(index, { status: "cancelled", message: IMPORT_CANCELLED_MESSAGE })
+            continue
+          }
+          if (layers.length === 0) throw new Error(formatReportMessage("No se encontraron entidades", pending.warnings))
+
+          const layerCount = layers.length + pending.skippedLayerCount
+          let addedCount = 0
+          let featureCount = 0
+          for (const [layerIndex, layer] of layers.entries()) {
+            const projection = await chooseLayerProjection(layer)
+            if (!projection) continue
+            const features = await layer.readFeatures(projection)
+            // Decoding yields to the page, where the import can be cancelled meanwhile.
+            if (isCancelRequestedRef.current) break
+            onAddLayer({
+              id: `${importId}-${index}-${layerIndex}`,
+              name: layer.name,
+              olLayer: new VectorLayer({ source: new VectorSource({ features }) }),
+              visible: true,
+              objectUrls: layer.objectUrls,
+            })
+            addedCount++
+            featureCount += features.length
+          }
+          addedLayerCount += addedCount
+          updateReport(index, addedCount > 0
+            ? { status: "done", message: formatReportMessage(`${featureCount} entidad(es)${layerCount > 1 ? ` en ${addedCount} de ${layerCount} capas` : ""}`, pending.warnings) }
+            : { status: "cancelled", message: isCancelRequestedRef.current ? IMPORT_CANCELLED_MESSAGE : "No se indicó el sistema de referencia." })
+        } catch (error: any) {
+          if (isCancelRequestedRef.current) {
+            updateReport(index, { status: "cancelled", message: IMPORT_CANCELLED_MESSAGE })
+            continue
+          }
+          console.error(`Error importando ${dataset.name}:`, error)
+          failedCount++
+          updateReport(index, { status: "error", message: error.message || "Ocurrió un error desconocido." })
+        }
+      }
+    } finally {
+      // The worker is started again for the next import rather than kept holding memory.
+      terminateWorker()
+      isImportingRef.current = false
+      setIsImporting(false)
+    }
+
+    if (isCancelRequestedRef.current) {
+      toast({ title: "Importación Cancelada", description: `${addedLayerCount} capa(s) añadida(s) antes de cancelar.` })
+    } else if (failedCount > 0) {
+      toast({
+        title: "Importación con Errores",
+        description: `${addedLayerCount} capa(s) añadida(s); ${failedCount} archivo(s) no se pudieron importar. Vea el detalle en el panel de capas.`,
+        variant: "destructive",
+      })
+    } else if (addedLayerCount > 0) {
+      toast({ title: addedLayerCount > 1 ? "Capas Añadidas" : "Capa Añadida", description: `${addedLayerCount} capa(s) añadida(s) al mapa.` })
+    }
+  }, [idPrefix, onAddLayer, chooseLayerProjection, promptForTableMapping, readDatasetInWorker, terminateWorker, toast])
+
+  /** Stops the import: the worker is terminated and any open dialog is dismissed. */
+  const cancelImport = React.useCallback(() => {
+    if (!isImportingRef.current) return
+    isCancelRequestedRef.current = true
+    cancelWorkerRequestRef.current?.()
+    resolveCrsPrompt(null)
+    resolveTableImport(null)
+  }, [resolveCrsPrompt, resolveTableImport])
+
+  const clearReports = React.useCallback(() => setReports([]), [])
+
+  return {
+    importFiles,
+    cancelImport,
+    isImporting,
+    reports,
+    clearReports,
+    crsPromptRequest,
+    resolveCrsPrompt,
+    tableImportSource,
+    resolveTableImport,
+  }
+}
@@ -0,0 +1,178 @@
+"use client"
+
+import * as React from "react"
+import type { Map as OLMap, Feature as OLFeature } from "ol"
+import Overlay from "ol/Overlay"
+import Draw from "ol/interaction/Draw"
+import VectorLayer from "ol/layer/Vector"
+import VectorSource from "ol/source/Vector"
+import { Style, Fill, Stroke, Circle as CircleStyle } from "ol/style"
+import type Geometry from "ol/geom/Geometry"
+import { unByKey } from "ol/Observable"
+import type { EventsKey } from "ol/events"
+
+import {
+  getMeasurementAnchor,
+  getMeasurementLabel,
+  getMeasurementProperties,
+  type MeasureTool,
+  type MeasureUnits,
+} from "@/lib/measurement"
+
+const measureStyle = new Style({
+  fill: new Fill({ color: "rgba(255, 255, 255, 0.25)" }),
+  stroke: new Stroke({ color: "#ffcc33", width: 2, lineDash: [8, 6] }),
+  image: new CircleStyle({ radius: 4, fill: new Fill({ color: "#ffcc33" }) }),
+})
+
+const TOOLTIP_CLASS = "measure-tooltip"
+
+function createTooltip(): Overlay {
+  const element = document.createElement("div")
+  element.className = `${TOOLTIP_CLASS} ${TOOLTIP_CLASS}--active`
+  return new Overlay({
+    element,
+    offset: [0, -12],
+    positioning: "bottom-center",
+    stopEvent: false,
+    insertFirst: false,
+  })
+}
+
+function updateTooltip(tooltip: Overlay, geometry: Geometry, units: MeasureUnits) {
+  const element = tooltip.getElement()
+  if (element) element.textContent = getMeasurementLabel(geometry, units)
+  tooltip.setPosition(getMeasurementAnchor(geometry))
+}
+
+/**
+ * Geodesic length and area measurement on its own layer. Finished measurements keep
+ * a static tooltip until they are cleared or taken out with `takeMeasurements`.
+ */
+export function useMeasureTool(mapRef: React.MutableRefObject<OLMap | null>, units: MeasureUnits) {
+  const [activeMeasureTool, setActiveMeasureTool] = React.useState<MeasureTool | null>(null)
+  const [measurementCount, setMeasurementCount] = React.useState(0)
+  const layerRef = React.useRef<VectorLayer<VectorSource<OLFeature<any>>> | null>(null)
+  const drawRef = React.useRef<Draw | null>(null)
+  const tooltipsRef = React.useRef(new Map<OLFeature<any>, Overlay>())
+  // Read from OpenLayers listeners, which outlive the render that created them.
+  const unitsRef = React.useRef(units)
+
+  const ensureLayer = React.useCallback((map: OLMap) => {
+    if (!layerRef.current) {
+      layerRef.current = new VectorLayer({
+        source: new VectorSource({ wrapX: false }),
+        style: measureStyle,
+        zIndex: 1500,
+      })
+      layerRef.current.set("isMeasureLayer", true)
+    }
+    if (!map.getLayers().getArray().includes(layerRef.current)) map.addLayer(layerRef.current)
+    return layerRef.current.getSource()!
+  }, [])
+
+  const removeDraw = React.useCallback(() => {
+    if (drawRef.current) {
+      // Fires drawabort, which removes the tooltip of an unfinished sketch.
+      drawRef.current.abortDrawing()
+      mapRef.current?.removeInteraction(drawRef.current)
+      drawRef.current.dispose()
+      drawRef.current = null
+    }
+  }, [mapRef])
+
+  const stopMeasureTool = React.useCallback(() => {
+    removeDraw()
+    setActiveMeasureTool(null)
+  }, [removeDraw])
+
+  const toggleMeasureTool = React.useCallback((tool: MeasureTool) => {
+    const map = mapRef.current
+    if (!map) return
+    removeDraw()
+    if (activeMeasureTool === tool) {
+      setActiveMeasureTool(null)
+      return
+    }
+
+    const source = ensureLayer(map)
+    const draw = new Draw({
+      source,
+      type: tool === "area" ? "Polygon" : "LineString",
+      style: measureStyle,
+    })
+
+    let sketchTooltip: Overlay | null = null
+    let geometryListenerKey: EventsKey | null = null
+
+    draw.on("drawstart", event => {
+      sketchTooltip = createTooltip()
+      map.addOverlay(sketchTooltip)
+      const geometry = event.feature.getGeometry() as Geometry
+      const tooltip = sketchTooltip
+      geometryListenerKey = geometry.on("change", () => updateTooltip(tooltip, geometry, unitsRef.current))
+    })
+    const finishSketch = () => {
+      if (geometryListenerKey) unByKey(geometryListenerKey)
+      geometryListenerKey = null
+    }
+    draw.on("drawend", event => {
+      finishSketch()
+      if (!sketchTooltip) return
+      const feature = event.feature as OLFeature<any>
+      updateTooltip(sketchTooltip, feature.getGeometry() as Geometry, unitsRef.current)
+      sketchTooltip.getElement()?.classList.remove(`${TOOLTIP_CLASS}--active`)
+      tooltipsRef.current.set(feature, sketchTooltip)
+      sketchTooltip = null
+      setMeasurementCount(tooltipsRef.current.size)
+    })
+    draw.on("drawabort", () => {
+      finishSketch()
+      if (sketchTooltip) map.removeOverlay(sketchTooltip)
+      sketchTooltip = null
+    })
+
+    map.addInteraction(draw)
+    drawRef.current = draw
+    setActiveMeasureTool(tool)
+  }, [activeMeasureTool, ensureLayer, mapRef, removeDraw])
+
+  const removeMeasurements = React.useCallback((): OLFeature<any>[] => {
+    const features = Array.from(tooltipsRef.current.keys())
+    tooltipsRef.current.forEach(tooltip => mapRef.current?.removeOverlay(tooltip))
+    tooltipsRef.current.clear()
+    layerRef.current?.getSource()?.clear()
+    setMeasurementCount(0)
+    return features
+  }, [mapRef])
+
+  const clearMeasurements = React.useCallback(() => {
+    drawRef.current?.abortDrawing()
+    removeMeasurements()
+  }, [removeMeasurements])
+
+  /** Removes the finished measurements and returns them with their measured values as properties. */
+  const takeMeasurements = React.useCallback((): OLFeature<any>[] => {
+    return removeMeasurements().map(feature => {
+      const geometry = feature.getGeometry() as Geometry
+      feature.setProperties(getMeasurementProperties(geometry))
+      return feature
+    })
+  }, [removeMeasurements])
+
+  React.useEffect(() => {
+    unitsRef.current = units
+    tooltipsRef.current.forEach((tooltip, feature) => updateTooltip(tooltip, feature.getGeometry() as Geometry, units))
+  }, [units])
+
+  React.useEffect(() => () => removeDraw(), [removeDraw])
+
+  return {
+    activeMeasureTool,
+    toggleMeasureTool,
+    stopMeasureTool,
+    clearMeasurements,
+    takeMeasurements,
+    measurementCount,
+  }
+}
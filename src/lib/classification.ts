@@ -0,0 +1,147 @@
+export type ClassificationMethod = 'equal-interval' | 'quantile' | 'jenks';
+
+export const CLASSIFICATION_METHOD_OPTIONS: { value: ClassificationMethod; label: string }[] = [
+  { value: 'equal-interval', label: 'Intervalos iguales' },
+  { value: 'quantile', label: 'Cuantiles' },
+  { value: 'jenks', label: 'Cortes naturales (Jenks)' },
+];
+
+export const COLOR_RAMPS: Record<string, { label: string; stops: string[] }> = {
+  blues: { label: 'Azules', stops: ['#eff3ff', '#6baed6', '#08519c'] },
+  greens: { label: 'Verdes', stops: ['#edf8e9', '#74c476', '#006d2c'] },
+  reds: { label: 'Rojos', stops: ['#fee5d9', '#fb6a4a', '#a50f15'] },
+  ylorrd: { label: 'Amarillo-Rojo', stops: ['#ffffb2', '#fd8d3c', '#bd0026'] },
+  viridis: { label: 'Viridis', stops: ['#440154', '#21918c', '#fde725'] },
+  spectral: { label: 'Espectral', stops: ['#d7191c', '#ffffbf', '#2b83ba'] },
+};
+
+const CATEGORICAL_PALETTE = [
+  '#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd',
+  '#8c564b', '#e377c2', '#7f7f7f', '#bcbd22', '#17becf',
+  '#393b79', '#e7ba52', '#637939', '#ad494a', '#a55194',
+];
+
+// Jenks is quadratic in the number of values, so large layers are sampled first.
+const JENKS_MAX_SAMPLE = 1000;
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function rgbToHex([r, g, b]: [number, number, number]): string {
+  return `#${[r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/** Returns `count` colors evenly interpolated along the ramp's stops. */
+export function interpolateRamp(rampId: string, count: number): string[] {
+  const stops = (COLOR_RAMPS[rampId] ?? COLOR_RAMPS.blues).stops.map(hexToRgb);
+  if (count <= 1) return [rgbToHex(stops[stops.length - 1])];
+  const colors: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const position = (i / (count - 1)) * (stops.length - 1);
+    const index = Math.min(Math.floor(position), stops.length - 2);
+    const t = position - index;
+    const [from, to] = [stops[index], stops[index + 1]];
+    colors.push(rgbToHex([0, 1, 2].map(c => from[c] + (to[c] - from[c]) * t) as [number, number, number]));
+  }
+  return colors;
+}
+
+/** Returns a distinct color for the i-th category, generating hues past the fixed palette. */
+export function getCategoryColor(index: number): string {
+  if (index < CATEGORICAL_PALETTE.length) return CATEGORICAL_PALETTE[index];
+  const hue = (index * 137.508) % 360;
+  const s = 0.65, l = 0.5;
+  const k = (n: number) => (n + hue / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => 255 * (l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1))));
+  return rgbToHex([f(0), f(8), f(4)]);
+}
+
+function equalIntervalBreaks(sorted: number[], classCount: number): number[] {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const step = (max - min) / classCount;
+  return Array.from({ length: classCount - 1 }, (_, i) => min + step * (i + 1));
+}
+
+function quantileBreaks(sorted: number[], classCount: number): number[] {
+  return Array.from({ length: classCount - 1 }, (_, i) => {
+    const position = ((i + 1) / classCount) * (sorted.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  });
+}
+
+function jenksBreaks(sorted: number[], classCount: number): number[] {
+  let data = sorted;
+  if (data.length > JENKS_MAX_SAMPLE) {
+    const step = (data.length - 1) / (JENKS_MAX_SAMPLE - 1);
+    data = Array.from({ length: JENKS_MAX_SAMPLE }, (_, i) => sorted[Math.round(i * step)]);
+  }
+  const n = data.length;
+  const lowerClassLimits: number[][] = Array.from({ length: n + 1 }, () => new Array(classCount + 1).fill(0));
+  const varianceCombinations: number[][] = Array.from({ length: n + 1 }, () => new Array(classCount + 1).fill(Infinity));
+
+  for (let j = 1; j <= classCount; j++) {
+    lowerClassLimits[1][j] = 1;
+    varianceCombinations[1][j] = 0;
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0, sumSquares = 0, weight = 0, variance = 0;
+    for (let m = 1; m <= l; m++) {
+      const lowerIndex = l - m + 1;
+      const value = data[lowerIndex - 1];
+      weight++;
+      sum += value;
+      sumSquares += value * value;
+      variance = sumSquares - (sum * sum) / weight;
+      const i4 = lowerIndex - 1;
+      if (i4 !== 0) {
+        for (let j = 2; j <= classCount; j++) {
+          if (varianceCombinations[l][j] >= variance + varianceCombinations[i4][j - 1]) {
+            lowerClassLimits[l][j] = lowerIndex;
+            varianceCombinations[l][j] = variance + varianceCombinations[i4][j - 1];
+          }
+        }
+      }
+    }
+    lowerClassLimits[l][1] = 1;
+    varianceCombinations[l][1] = variance;
+  }
+
+  const breaks: number[] = [];
+  let k = n;
+  for (let j = classCount; j >= 2; j--) {
+    const index = lowerClassLimits[k][j] - 1;
+    breaks.unshift(data[Math.max(index - 1, 0)]);
+    k = lowerClassLimits[k][j] - 1;
+  }
+  return breaks;
+}
+
+/**
+ * Computes `classCount - 1` inner class breaks for the given values. Duplicate
+ * breaks (e.g. from skewed data) are removed, so fewer classes may result.
+ */
+export function computeBreaks(values: number[], method: ClassificationMethod, classCount: number): number[] {
+  const sorted = values.filter(v => isFinite(v)).sort((a, b) => a - b);
+  if (sorted.length === 0 || classCount < 2 || sorted[0] === sorted[sorted.length - 1]) return [];
+  const effectiveClassCount = Math.min(classCount, sorted.length);
+  let breaks: number[];
+  switch (method) {
+    case 'quantile': breaks = quantileBreaks(sorted, effectiveClassCount); break;
+    case 'jenks': breaks = jenksBreaks(sorted, effectiveClassCount); break;
+    default: breaks = equalIntervalBreaks(sorted, effectiveClassCount);
+  }
+  return Array.from(new Set(breaks)).filter(b => b > sorted[0] && b < sorted[sorted.length - 1]);
+}
+
+export function toNumericValue(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : Number(String(value).replace(',', '.'));
+  return isFinite(num) ? num : null;
+}
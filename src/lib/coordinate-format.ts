@@ -0,0 +1,60 @@
+import type { Coordinate } from 'ol/coordinate';
+import { toLonLat, transform } from 'ol/proj';
+
+import { POSGAR_2007_CRS_OPTIONS, ensureUtmProjection, getUtmZone, registerProjections } from '@/lib/projections';
+
+export interface CoordinateDisplayOption {
+  id: string; // 'decimal', 'dms', 'utm' or an EPSG code
+  name: string;
+}
+
+export const COORDINATE_DISPLAY_OPTIONS: CoordinateDisplayOption[] = [
+  { id: 'decimal', name: 'WGS84 (grados decimales)' },
+  { id: 'dms', name: 'WGS84 (grados, min., seg.)' },
+  { id: 'EPSG:3857', name: 'Web Mercator (EPSG:3857)' },
+  { id: 'utm', name: 'UTM (zona del cursor)' },
+  ...POSGAR_2007_CRS_OPTIONS.map(({ code, name }) => ({ id: code, name })),
+];
+
+export const DEFAULT_COORDINATE_DISPLAY = 'decimal';
+
+const projectedFormat = new Intl.NumberFormat('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+function formatDmsValue(value: number, positive: string, negative: string): string {
+  const absolute = Math.abs(value);
+  let degrees = Math.floor(absolute);
+  let minutes = Math.floor((absolute - degrees) * 60);
+  let seconds = Math.round(((absolute - degrees) * 60 - minutes) * 60 * 100) / 100;
+  // Rounding can carry 59.999…" up to a full minute.
+  if (seconds >= 60) { seconds = 0; minutes += 1; }
+  if (minutes >= 60) { minutes = 0; degrees += 1; }
+  return `${degrees}°${String(minutes).padStart(2, '0')}'${seconds.toFixed(2).padStart(5, '0')}"${value < 0 ? negative : positive}`;
+}
+
+export function formatDms([lon, lat]: Coordinate): string {
+  return `${formatDmsValue(lat, 'N', 'S')} ${formatDmsValue(lon, 'E', 'O')}`;
+}
+
+/** Formats a map coordinate (EPSG:3857) for one of the COORDINATE_DISPLAY_OPTIONS. */
+export function formatMapCoordinate(coordinate: Coordinate, displayId: string): string {
+  const lonLat = toLonLat(coordinate, 'EPSG:3857');
+  switch (displayId) {
+    case 'decimal':
+      return `Lat ${lonLat[1].toFixed(6)}, Lon ${lonLat[0].toFixed(6)}`;
+    case 'dms':
+      return formatDms(lonLat);
+    case 'EPSG:3857':
+      return `X ${projectedFormat.format(coordinate[0])}, Y ${projectedFormat.format(coordinate[1])}`;
+    case 'utm': {
+      const zone = getUtmZone(lonLat[0]);
+      const south = lonLat[1] < 0;
+      const [easting, northing] = transform(coordinate, 'EPSG:3857', ensureUtmProjection(zone, south));
+      return `${zone}${south ? 'S' : 'N'} E ${projectedFormat.format(easting)}, N ${projectedFormat.format(northing)}`;
+    }
+    default: {
+      registerProjections();
+      const [x, y] = transform(coordinate, 'EPSG:3857', displayId);
+      return `X ${projectedFormat.format(x)}, Y ${projectedFormat.format(y)}`;
+    }
+  }
+}
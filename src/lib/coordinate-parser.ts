@@ -0,0 +1,139 @@
+import type { Coordinate } from 'ol/coordinate';
+import { transform } from 'ol/proj';
+
+import { registerProjections } from '@/lib/projections';
+
+export type CoordinateFormat = 'decimal' | 'dms' | 'projected';
+
+/**
+ * Order of the two values on each line: 'xy' is lon/lat or easting/northing,
+ * 'yx' is lat/lon or northing/easting. DMS values with a hemisphere letter ignore it.
+ */
+export type AxisOrder = 'xy' | 'yx';
+
+export interface CoordinateParseOptions {
+  format: CoordinateFormat;
+  axisOrder: AxisOrder;
+  crs?: string; // required for 'projected'
+}
+
+export interface CoordinateParseResult {
+  coordinates: Coordinate[]; // lon/lat in EPSG:4326
+  errors: string[];
+}
+
+const NUMBER_PATTERN = /^[-+]?\d+(?:[.,]\d+)?$/;
+
+// One DMS value: sign, degrees with a degree mark, then optional minutes and seconds,
+// with the hemisphere letter either before or after it ("O" is accepted for oeste).
+const DMS_VALUE = String.raw`([-+])?\s*(\d+(?:[.,]\d+)?)\s*[°º]\s*(?:(\d+(?:[.,]\d+)?)\s*['′’]\s*)?(?:(\d+(?:[.,]\d+)?)\s*(?:"|″|''|’’))?`;
+const DMS_LEADING_HEMISPHERE_PATTERN = new RegExp(String.raw`([NSEWO])\s*${DMS_VALUE}`, 'gi');
+const DMS_TRAILING_HEMISPHERE_PATTERN = new RegExp(String.raw`${DMS_VALUE}\s*([NSEWO])?`, 'gi');
+
+function toNumber(text: string): number {
+  return Number(text.replace(',', '.'));
+}
+
+/**
+ * Splits a line into its numeric values. A dot means commas are separators;
+ * otherwise commas are read as decimal marks when values are split by spaces, tabs or semicolons.
+ */
+function splitNumbers(line: string): string[] {
+  const trimmed = line.trim();
+  if (trimmed.includes('.') || !/[\s;]/.test(trimmed)) {
+    return trimmed.split(/[\s,;]+/).filter(Boolean);
+  }
+  return trimmed.split(/[\s;]+/).filter(Boolean);
+}
+
+function parsePair(line: string): [number, number] | string {
+  const parts = splitNumbers(line);
+  if (parts.length !== 2 || !parts.every(part => NUMBER_PATTERN.test(part))) {
+    return "se esperaban dos valores numéricos";
+  }
+  return [toNumber(parts[0]), toNumber(parts[1])];
+}
+
+function parseDmsLine(line: string, axisOrder: AxisOrder): Coordinate | string {
+  const leadingHemispheres = /^\s*[NSEWO]/i.test(line);
+  const pattern = leadingHemispheres ? DMS_LEADING_HEMISPHERE_PATTERN : DMS_TRAILING_HEMISPHERE_PATTERN;
+  const matches = Array.from(line.matchAll(pattern));
+  if (matches.length !== 2) return "se esperaban dos valores en grados, minutos y segundos (p. ej. 34°36'12\"S 58°22'54\"O)";
+
+  let lat: number | undefined;
+  let lon: number | undefined;
+  const unassigned: number[] = [];
+  for (const match of matches) {
+    const [hemisphereText, sign, degrees, minutes, seconds] = leadingHemispheres
+      ? [match[1], match[2], match[3], match[4], match[5]]
+      : [match[5], match[1], match[2], match[3], match[4]];
+    const minutesValue = minutes ? toNumber(minutes) : 0;
+    const secondsValue = seconds ? toNumber(seconds) : 0;
+    if (minutesValue >= 60 || secondsValue >= 60) return "minutos y segundos deben ser menores que 60";
+    let value = toNumber(degrees) + minutesValue / 60 + secondsValue / 3600;
+    const hemisphere = (hemisphereText || '').toUpperCase();
+    if (sign === '-' || hemisphere === 'S' || hemisphere === 'W' || hemisphere === 'O') value = -value;
+    if (hemisphere === 'N' || hemisphere === 'S') lat = value;
+    else if (hemisphere) lon = value;
+    else unassigned.push(value);
+  }
+
+  // Values without a hemisphere take the remaining slot, in the selected order.
+  const order: ('lat' | 'lon')[] = axisOrder === 'yx' ? ['lat', 'lon'] : ['lon', 'lat'];
+  for (const axis of order) {
+    if (unassigned.length === 0) break;
+    if (axis === 'lat' && lat === undefined) lat = unassigned.shift();
+    if (axis === 'lon' && lon === undefined) lon = unassigned.shift();
+  }
+  if (lat === undefined || lon === undefined) return "no se pudo distinguir latitud y longitud";
+  return [lon, lat];
+}
+
+function isValidLonLat([lon, lat]: Coordinate): boolean {
+  return Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+}
+
+/**
+ * Parses one vertex per line (blank lines are ignored) into lon/lat coordinates.
+ * Lines that can't be read are reported by number and skipped.
+ */
+export function parseCoordinateList(text: string, options: CoordinateParseOptions): CoordinateParseResult {
+  const coordinates: Coordinate[] = [];
+  const errors: string[] = [];
+  if (options.format === 'projected') registerProjections();
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') return;
+    let coordinate: Coordinate | string;
+    if (options.format === 'dms') {
+      coordinate = parseDmsLine(line, options.axisOrder);
+    } else {
+      const pair = parsePair(line);
+      if (typeof pair === 'string') {
+        coordinate = pair;
+      } else {
+        const [first, second] = pair;
+        const xy: Coordinate = options.axisOrder === 'xy' ? [first, second] : [second, first];
+        if (options.format === 'projected') {
+          try {
+            coordinate = transform(xy, options.crs ?? 'EPSG:4326', 'EPSG:4326');
+          } catch {
+            coordinate = "no se pudo transformar la coordenada";
+          }
+        } else {
+          coordinate = xy;
+        }
+      }
+    }
+
+    if (typeof coordinate === 'string') {
+      errors.push(`Línea ${index + 1}: ${coordinate}.`);
+    } else if (!coordinate.every(isFinite) || !isValidLonLat(coordinate)) {
+      errors.push(`Línea ${index + 1}: coordenada fuera de rango. Verifique el formato y el orden de los ejes.`);
+    } else {
+      coordinates.push(coordinate);
+    }
+  });
+
+  return { coordinates, errors };
+}
@@ -0,0 +1,6 @@
+export type EditTool = 'modify' | 'translate' | 'delete';
+
+// Pseudo layer id used to target the drawing layer in the editing tools.
+export const DRAWING_LAYER_ID = 'drawing';
+
+export type DrawTool = 'Polygon' | 'LineString' | 'Point' | 'Circle' | 'Box' | 'Freehand';
@@ -0,0 +1,170 @@
+import { Feature } from 'ol';
+import type { Feature as OLFeature } from 'ol';
+import GeoJSON from 'ol/format/GeoJSON';
+import type Geometry from 'ol/geom/Geometry';
+import type { GeometryLayout } from 'ol/geom/Geometry';
+import LineString from 'ol/geom/LineString';
+import MultiLineString from 'ol/geom/MultiLineString';
+import MultiPoint from 'ol/geom/MultiPoint';
+import MultiPolygon from 'ol/geom/MultiPolygon';
+import Point from 'ol/geom/Point';
+import Polygon from 'ol/geom/Polygon';
+
+// Geometry type and layout of each feature, as indexes into these lists.
+const GEOMETRY_TYPES = ['Point', 'LineString', 'Polygon', 'MultiPoint', 'MultiLineString', 'MultiPolygon'] as const;
+const LAYOUTS: GeometryLayout[] = ['XY', 'XYZ', 'XYM', 'XYZM'];
+const NO_GEOMETRY = 255;
+const OTHER_GEOMETRY = 254; // geometry collections, sent as GeoJSON
+// Features decoded between yields to the event loop.
+const DECODE_CHUNK_SIZE = 5000;
+
+type SimpleGeometry = Point | LineString | Polygon | MultiPoint | MultiLineString | MultiPolygon;
+
+/**
+ * Features packed so their geometries can be transferred between threads instead of copied:
+ * the flat coordinates of every geometry go into one buffer, their ring and part ends into another.
+ */
+export interface FeatureBuffers {
+  geometryTypes: Uint8Array;
+  layouts: Uint8Array;
+  coordinates: Float64Array;
+  coordinateOffsets: Uint32Array; // one more than features: where each geometry starts in `coordinates`
+  ends: Uint32Array; // ring or part ends; for multipolygons, each polygon's ring count then its ends
+  endOffsets: Uint32Array;
+  otherGeometries: Record<number, object>; // by feature index
+  properties: Record<string, unknown>[];
+  ids: (string | number | undefined)[];
+}
+
+function getEnds(geometry: SimpleGeometry): number[] {
+  if (geometry instanceof Polygon || geometry instanceof MultiLineString) return geometry.getEnds();
+  if (geometry instanceof MultiPolygon) return geometry.getEndss().flatMap(ends => [ends.length, ...ends]);
+  return [];
+}
+
+function isSimpleGeometry(geometry: Geometry | undefined): geometry is SimpleGeometry {
+  return !!geometry && (GEOMETRY_TYPES as readonly string[]).includes(geometry.getType());
+}
+
+/** Packs the features; `transfer` lists the buffers to hand to postMessage. */
+export function encodeFeatures(
+  features: OLFeature<any>[],
+  onProgress?: (fraction: number) => void
+): { buffers: FeatureBuffers; transfer: ArrayBuffer[] } {
+  const count = features.length;
+  let coordinateCount = 0;
+  let endCount = 0;
+  const featureEnds: number[][] = new Array(count);
+  features.forEach((feature, i) => {
+    const geometry = feature.getGeometry();
+    featureEnds[i] = isSimpleGeometry(geometry) ? getEnds(geometry) : [];
+    coordinateCount += isSimpleGeometry(geometry) ? geometry.getFlatCoordinates().length : 0;
+    endCount += featureEnds[i].length;
+  });
+
+  const buffers: FeatureBuffers = {
+    geometryTypes: new Uint8Array(count),
+    layouts: new Uint8Array(count),
+    coordinates: new Float64Array(coordinateCount),
+    coordinateOffsets: new Uint32Array(count + 1),
+    ends: new Uint32Array(endCount),
+    endOffsets: new Uint32Array(count + 1),
+    otherGeometries: {},
+    properties: new Array(count),
+    ids: new Array(count),
+  };
+  const geoJson = new GeoJSON();
+  let coordinateOffset = 0;
+  let endOffset = 0;
+  features.forEach((feature, i) => {
+    const geometry = feature.getGeometry() as Geometry | undefined;
+    if (isSimpleGeometry(geometry)) {
+      const flatCoordinates = geometry.getFlatCoordinates();
+      buffers.geometryTypes[i] = GEOMETRY_TYPES.indexOf(geometry.getType() as typeof GEOMETRY_TYPES[number]);
+      buffers.layouts[i] = Math.max(0, LAYOUTS.indexOf(geometry.getLayout()));
+      buffers.coordinates.set(flatCoordinates, coordinateOffset);
+      coordinateOffset += flatCoordinates.length;
+      buffers.ends.set(featureEnds[i], endOffset);
+      endOffset += featureEnds[i].length;
+    } else if (geometry) {
+      buffers.geometryTypes[i] = OTHER_GEOMETRY;
+      buffers.otherGeometries[i] = geoJson.writeGeometryObject(geometry);
+    } else {
+      buffers.geometryTypes[i] = NO_GEOMETRY;
+    }
+    buffers.coordinateOffsets[i + 1] = coordinateOffset;
+    buffers.endOffsets[i + 1] = endOffset;
+
+    const properties = feature.getProperties();
+    delete properties[feature.getGeometryName()];
+    buffers.properties[i] = properties;
+    buffers.ids[i] = feature.getId();
+    if (onProgress && i % 1000 === 999) onProgress((i + 1) / count);
+  });
+
+  const transfer = [buffers.geometryTypes, buffers.layouts, buffers.coordinates, buffers.coordinateOffsets, buffers.ends, buffers.endOffsets]
+    .map(array => array.buffer as ArrayBuffer);
+  return { buffers, transfer };
+}
+
+// Plain arrays: editing appends to the flat coordinates of a geometry.
+function toArray(values: Float64Array | Uint32Array, start: number, end: number): number[] {
+  const array = new Array<number>(end - start);
+  for (let i = start; i < end; i++) array[i - start] = values[i];
+  return array;
+}
+
+function decodeGeometry(buffers: FeatureBuffers, index: number, geoJson: GeoJSON): Geometry | undefined {
+  const type = buffers.geometryTypes[index];
+  if (type === NO_GEOMETRY) return undefined;
+  if (type === OTHER_GEOMETRY) return geoJson.readGeometry(buffers.otherGeometries[index]);
+
+  const coordinates = toArray(buffers.coordinates, buffers.coordinateOffsets[index], buffers.coordinateOffsets[index + 1]);
+  const ends = toArray(buffers.ends, buffers.endOffsets[index], buffers.endOffsets[index + 1]);
+  const layout = LAYOUTS[buffers.layouts[index]];
+  switch (GEOMETRY_TYPES[type]) {
+    case 'Point':
+      return new Point(coordinates, layout);
+    case 'LineString':
+      return new LineString(coordinates, layout);
+    case 'Polygon':
+      return new Polygon(coordinates, layout, ends);
+    case 'MultiPoint':
+      return new MultiPoint(coordinates, layout);
+    case 'MultiLineString':
+      return new MultiLineString(coordinates, layout, ends);
+    case 'MultiPolygon': {
+      const endss: number[][] = [];
+      for (let i = 0; i < ends.length; i += ends[i] + 1) endss.push(ends.slice(i + 1, i + 1 + ends[i]));
+      return new MultiPolygon(coordinates, layout, endss);
+    }
+    default:
+      return undefined;
+  }
+}
+
+function decodeFeature(buffers: FeatureBuffers, index: number, geoJson: GeoJSON): OLFeature<any> {
+  const feature = new Feature(buffers.properties[index]);
+  const geometry = decodeGeometry(buffers, index, geoJson);
+  if (geometry) feature.setGeometry(geometry);
+  const id = buffers.ids[index];
+  if (id !== undefined) feature.setId(id);
+  return feature;
+}
+
+/** Unpacks the features a chunk at a time, letting the page handle events between chunks. */
+export async function decodeFeatures(
+  buffers: FeatureBuffers,
+  onProgress?: (fraction: number) => void
+): Promise<OLFeature<any>[]> {
+  const geoJson = new GeoJSON();
+  const count = buffers.properties.length;
+  const features: OLFeature<any>[] = new Array(count);
+  for (let start = 0; start < count; start += DECODE_CHUNK_SIZE) {
+    if (start > 0) await new Promise(resolve => setTimeout(resolve, 0));
+    const end = Math.min(start + DECODE_CHUNK_SIZE, count);
+    for (let i = start; i < end; i++) features[i] = decodeFeature(buffers, i, geoJson);
+    onProgress?.(end / count);
+  }
+  return features;
+}
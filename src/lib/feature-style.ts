@@ -0,0 +1,150 @@
+import type { Feature as OLFeature } from 'ol';
+import { asString, type Color } from 'ol/color';
+import type { ColorLike } from 'ol/colorlike';
+import { Circle as CircleStyle, Fill, Icon, Stroke, Style, Text } from 'ol/style';
+import type { StyleLike } from 'ol/style/Style';
+
+export interface StrokeDescription {
+  color: string;
+  width?: number;
+  lineDash?: number[];
+}
+
+/**
+ * Serializable description of a style a feature carries itself, as read from a KML:
+ * icons, labels, fills and strokes. Stored with the layer in project files and sessions.
+ */
+export interface FeatureStyleDescription {
+  fill?: string;
+  stroke?: StrokeDescription;
+  icon?: {
+    src: string;
+    anchor?: number[]; // pixels from the top-left of the image
+    scale?: number;
+    rotation?: number;
+    color?: string;
+  };
+  circle?: {
+    radius: number;
+    fill?: string;
+    stroke?: StrokeDescription;
+  };
+  text?: {
+    text: string;
+    font?: string;
+    fill?: string;
+    stroke?: StrokeDescription;
+    scale?: number;
+    offsetX?: number;
+    offsetY?: number;
+    textAlign?: CanvasTextAlign;
+  };
+}
+
+// Feature styles are evaluated once, at a resolution that only matters to resolution-based styles.
+const DESCRIBE_RESOLUTION = 1;
+
+function describeColor(color: Color | ColorLike | null | undefined): string | undefined {
+  if (Array.isArray(color)) return asString(color);
+  return typeof color === 'string' ? color : undefined;
+}
+
+function describeFill(fill: Fill | null): string | undefined {
+  return fill ? describeColor(fill.getColor() as Color | ColorLike) : undefined;
+}
+
+function describeStroke(stroke: Stroke | null): StrokeDescription | undefined {
+  const color = stroke ? describeColor(stroke.getColor()) : undefined;
+  if (!stroke || !color) return undefined;
+  return { color, width: stroke.getWidth(), lineDash: stroke.getLineDash() ?? undefined };
+}
+
+function describeStyle(style: Style): FeatureStyleDescription {
+  const description: FeatureStyleDescription = {
+    fill: describeFill(style.getFill()),
+    stroke: describeStroke(style.getStroke()),
+  };
+  const image = style.getImage();
+  if (image instanceof Icon && image.getSrc()) {
+    const scale = image.getScale();
+    description.icon = {
+      src: image.getSrc()!,
+      // The anchor is only known once the image has loaded; the icon is centered otherwise.
+      anchor: image.getAnchor() ?? undefined,
+      scale: Array.isArray(scale) ? scale[0] : scale,
+      rotation: image.getRotation(),
+      color: describeColor(image.getColor()),
+    };
+  } else if (image instanceof CircleStyle) {
+    description.circle = { radius: image.getRadius(), fill: describeFill(image.getFill()), stroke: describeStroke(image.getStroke()) };
+  }
+  const text = style.getText();
+  const label = text?.getText();
+  if (text && typeof label === 'string' && label !== '') {
+    const scale = text.getScale();
+    description.text = {
+      text: label,
+      font: text.getFont(),
+      fill: describeFill(text.getFill()),
+      stroke: describeStroke(text.getStroke()),
+      scale: Array.isArray(scale) ? scale[0] : scale,
+      offsetX: text.getOffsetX(),
+      offsetY: text.getOffsetY(),
+      textAlign: text.getTextAlign(),
+    };
+  }
+  return description;
+}
+
+/** Describes the styles the feature carries itself; null when it has none and the layer's applies. */
+export function describeFeatureStyle(feature: OLFeature<any>): FeatureStyleDescription[] | null {
+  const styleFunction = feature.getStyleFunction();
+  if (!styleFunction) return null;
+  const styles = styleFunction(feature, DESCRIBE_RESOLUTION);
+  if (!styles) return null;
+  return (Array.isArray(styles) ? styles : [styles]).map(describeStyle);
+}
+
+function createStroke(stroke: StrokeDescription | undefined): Stroke | undefined {
+  return stroke ? new Stroke({ color: stroke.color, width: stroke.width, lineDash: stroke.lineDash }) : undefined;
+}
+
+function createFill(color: string | undefined): Fill | undefined {
+  return color ? new Fill({ color }) : undefined;
+}
+
+export function createFeatureStyle(descriptions: FeatureStyleDescription[]): StyleLike {
+  return descriptions.map(description => new Style({
+    fill: createFill(description.fill),
+    stroke: createStroke(description.stroke),
+    image: description.icon
+      ? new Icon({
+        src: description.icon.src,
+        anchor: description.icon.anchor,
+        anchorXUnits: description.icon.anchor ? 'pixels' : undefined,
+        anchorYUnits: description.icon.anchor ? 'pixels' : undefined,
+        scale: description.icon.scale,
+        rotation: description.icon.rotation,
+        color: description.icon.color,
+      })
+      : description.circle
+        ? new CircleStyle({
+          radius: description.circle.radius,
+          fill: createFill(description.circle.fill),
+          stroke: createStroke(description.circle.stroke),
+        })
+        : undefined,
+    text: description.text
+      ? new Text({
+        text: description.text.text,
+        font: description.text.font,
+        fill: createFill(description.text.fill),
+        stroke: createStroke(description.text.stroke),
+        scale: description.text.scale,
+        offsetX: description.text.offsetX,
+        offsetY: description.text.offsetY,
+        textAlign: description.text.textAlign,
+      })
+      : undefined,
+  }));
+}
@@ -0,0 +1,93 @@
+import type { Feature as OLFeature } from 'ol';
+
+export type FieldType = 'text' | 'number' | 'date' | 'choice';
+
+/** A custom attribute of a layer. Values are stored on features under `name`. */
+export interface FieldDefinition {
+  name: string;
+  type: FieldType;
+  options?: string[]; // only for 'choice'
+}
+
+export const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+  text: 'Texto',
+  number: 'Número',
+  date: 'Fecha',
+  choice: 'Lista de opciones',
+};
+
+// Every editable feature has these, ahead of the layer's custom fields.
+// KML writes them as <name> and <description> instead of ExtendedData.
+export const BUILT_IN_FIELDS: FieldDefinition[] = [
+  { name: 'name', type: 'text' },
+  { name: 'description', type: 'text' },
+];
+
+const RESERVED_FIELD_NAMES = ['geometry', ...BUILT_IN_FIELDS.map(field => field.name)];
+
+/** Returns an error message when `name` can't be used as a new field, otherwise null. */
+export function validateFieldName(name: string, schema: FieldDefinition[]): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return "El nombre del campo no puede estar vacío.";
+  if (RESERVED_FIELD_NAMES.includes(trimmed.toLowerCase())) return `"${trimmed}" es un campo reservado.`;
+  if (schema.some(field => field.name.toLowerCase() === trimmed.toLowerCase())) return `Ya existe un campo "${trimmed}".`;
+  return null;
+}
+
+/** Converts a form input value to the value stored on the feature; empty input clears it. */
+export function coerceFieldValue(field: FieldDefinition, input: string): string | number | null {
+  const trimmed = input.trim();
+  if (trimmed === '') return null;
+  switch (field.type) {
+    case 'number': {
+      const value = Number(trimmed.replace(',', '.'));
+      return isFinite(value) ? value : null;
+    }
+    case 'date':
+      // <input type="date"> already yields ISO `YYYY-MM-DD`
+      return /^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? trimmed : null;
+    default:
+      return input;
+  }
+}
+
+/** The inverse of coerceFieldValue, for filling form inputs. */
+export function formatFieldValue(field: FieldDefinition, value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (field.type === 'date') {
+    const text = String(value);
+    if (/^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10);
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Properties to export for a feature: built-in and schema fields first (null when
+ * unset, so every record has the same columns; writeKml leaves them out), then any
+ * other attributes it has.
+ */
+export function getExportProperties(feature: OLFeature<any>, schema: FieldDefinition[]): Record<string, any> {
+  const properties = { ...feature.getProperties() };
+  delete properties[feature.getGeometryName()];
+  const exported: Record<string, any> = {};
+  [...BUILT_IN_FIELDS, ...schema].forEach(field => {
+    exported[field.name] = properties[field.name] ?? null;
+    delete properties[field.name];
+  });
+  return { ...exported, ...properties };
+}
+
+/** Clones features carrying their export properties, since the OpenLayers writers read properties off the feature. */
+export function createExportFeatures(features: OLFeature<any>[], schema: FieldDefinition[]): OLFeature<any>[] {
+  return features.map(feature => {
+    const clone = feature.clone();
+    const geometryName = clone.getGeometryName();
+    Object.keys(clone.getProperties()).forEach(key => {
+      if (key !== geometryName) clone.unset(key, true);
+    });
+    clone.setProperties(getExportProperties(feature, schema), true);
+    return clone;
+  });
+}
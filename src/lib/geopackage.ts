@@ -0,0 +1,274 @@
+import type { Feature as OLFeature } from 'ol';
+import { Feature } from 'ol';
+import WKB from 'ol/format/WKB';
+import type Geometry from 'ol/geom/Geometry';
+import { createEmpty, extend, isEmpty } from 'ol/extent';
+import type { Database, SqlJsStatic, SqlValue } from 'sql.js';
+
+import { getProjectionWkt, registerProjections, resolveProjection } from '@/lib/projections';
+
+// "GPKG" and GeoPackage 1.3, as the PRAGMAs of a conforming file must read.
+const GPKG_APPLICATION_ID = 0x47504b47;
+const GPKG_USER_VERSION = 10300;
+
+const GEOMETRY_COLUMN = 'geom';
+const FID_COLUMN = 'fid';
+
+// Envelope size in bytes for each envelope indicator of the geometry blob header.
+const ENVELOPE_SIZES = [0, 32, 48, 48, 64];
+
+export interface GeoPackageLayer {
+  name: string;
+  features: OLFeature<any>[]; // raw coordinates, in `projection`
+  projection: string | null | undefined; // undefined: undefined SRS; null: SRS that can't be resolved
+}
+
+export interface GeoPackageLayerInput {
+  name: string;
+  features: OLFeature<any>[]; // in the map projection
+}
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJsPromise) {
+    sqlJsPromise = import('sql.js')
+      // The bundler ships the WASM binary of the installed sql.js (its browser build), so it always
+      // matches the JS glue and loads offline; the version is pinned exactly in package.json.
+      .then(({ default: initSqlJs }) => initSqlJs({ locateFile: () => new URL('sql.js/dist/sql-wasm-browser.wasm', import.meta.url).href }))
+      .catch(error => {
+        // Let a later attempt retry, e.g. after a network error.
+        sqlJsPromise = null;
+        throw error;
+      });
+  }
+  return sqlJsPromise;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function queryRows(db: Database, sql: string, params: SqlValue[] = []): Record<string, SqlValue>[] {
+  const statement = db.prepare(sql);
+  const rows: Record<string, SqlValue>[] = [];
+  try {
+    statement.bind(params);
+    while (statement.step()) rows.push(statement.getAsObject());
+  } finally {
+    statement.free();
+  }
+  return rows;
+}
+
+/** Strips the GeoPackage binary header (magic, flags, SRS id, envelope) and returns the WKB. */
+function readGeometryBlob(blob: Uint8Array): Uint8Array | null {
+  if (blob.length < 8 || blob[0] !== 0x47 || blob[1] !== 0x50) return null;
+  const flags = blob[3];
+  const isEmptyGeometry = (flags & 0x10) !== 0;
+  const envelopeSize = ENVELOPE_SIZES[(flags >> 1) & 0x07];
+  if (isEmptyGeometry || envelopeSize === undefined) return null;
+  return blob.subarray(8 + envelopeSize);
+}
+
+function writeGeometryBlob(geometry: Geometry, wkb: Uint8Array, srsId: number): Uint8Array {
+  const extent = geometry.getExtent();
+  const empty = isEmpty(extent);
+  const headerSize = empty ? 8 : 40;
+  const blob = new Uint8Array(headerSize + wkb.length);
+  const view = new DataView(blob.buffer);
+  blob[0] = 0x47; // 'G'
+  blob[1] = 0x50; // 'P'
+  blob[2] = 0; // version 1
+  // Little-endian header, with an XY envelope unless the geometry is empty.
+  blob[3] = empty ? 0x11 : 0x03;
+  view.setInt32(4, srsId, true);
+  if (!empty) {
+    const [minX, minY, maxX, maxY] = extent;
+    [minX, maxX, minY, maxY].forEach((value, i) => view.setFloat64(8 + i * 8, value, true));
+  }
+  blob.set(wkb, headerSize);
+  return blob;
+}
+
+function resolveSrs(db: Database, srsId: number): string | null | undefined {
+  // -1 and 0 are the spec's "undefined" Cartesian and geographic systems.
+  if (srsId === 0) return 'EPSG:4326';
+  if (srsId === -1) return undefined;
+  const [srs] = queryRows(db, 'SELECT organization, organization_coordsys_id, definition FROM gpkg_spatial_ref_sys WHERE srs_id = ?', [srsId]);
+  if (!srs) return null;
+  if (String(srs.organization).toUpperCase() === 'EPSG') {
+    const projection = resolveProjection(`EPSG:${srs.organization_coordsys_id}`);
+    if (projection) return projection;
+  }
+  return typeof srs.definition === 'string' ? resolveProjection(srs.definition) : null;
+}
+
+/** Reads every feature table of a GeoPackage. Attribute-only and tile tables are skipped. */
+export async function readGeoPackage(buffer: ArrayBuffer): Promise<GeoPackageLayer[]> {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(new Uint8Array(buffer));
+  try {
+    registerProjections();
+    const tables = queryRows(db, `
+      SELECT c.table_name, c.identifier, g.column_name, g.srs_id
+      FROM gpkg_contents c JOIN gpkg_geometry_columns g ON g.table_name = c.table_name
+      WHERE c.data_type = 'features'
+    `);
+    const wkbFormat = new WKB();
+
+    return tables.map(table => {
+      const tableName = String(table.table_name);
+      const geometryColumn = String(table.column_name);
+      const primaryKey = queryRows(db, `PRAGMA table_info(${quoteIdentifier(tableName)})`).find(column => column.pk === 1)?.name;
+      const features = queryRows(db, `SELECT * FROM ${quoteIdentifier(tableName)}`).map(row => {
+        const { [geometryColumn]: blob, ...properties } = row;
+        if (typeof primaryKey === 'string') delete properties[primaryKey];
+        const feature = new Feature(properties);
+        const wkb = blob instanceof Uint8Array ? readGeometryBlob(blob) : null;
+        if (wkb) feature.setGeometry(wkbFormat.readGeometry(wkb));
+        return feature;
+      });
+      return {
+        name: typeof table.identifier === 'string' && table.identifier ? table.identifier : tableName,
+        features,
+        projection: resolveSrs(db, Number(table.srs_id)),
+      };
+    });
+  } finally {
+    db.close();
+  }
+}
+
+type ColumnType = 'INTEGER' | 'REAL' | 'TEXT';
+
+function getColumnType(values: unknown[]): ColumnType {
+  const present = values.filter(value => value !== null && value !== undefined && value !== '');
+  if (present.length > 0 && present.every(value => typeof value === 'number' && Number.isFinite(value))) {
+    return present.every(value => Number.isInteger(value)) ? 'INTEGER' : 'REAL';
+  }
+  return 'TEXT';
+}
+
+function toSqlValue(value: unknown, type: ColumnType): SqlValue {
+  if (value === null || value === undefined) return null;
+  if (type !== 'TEXT') return typeof value === 'number' && Number.isFinite(value) ? value : null;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function getGeometryTypeName(features: OLFeature<any>[]): string {
+  const types = new Set(features.map(feature => feature.getGeometry()?.getType()).filter(Boolean));
+  return types.size === 1 ? String([...types][0]).toUpperCase() : 'GEOMETRY';
+}
+
+/** Columns for a layer's properties, keyed by property name. Names are unique regardless of case. */
+function buildColumns(features: OLFeature<any>[]): Map<string, { name: string; type: ColumnType }> {
+  const properties = features.map(feature => {
+    const values = { ...feature.getProperties() };
+    delete values[feature.getGeometryName()];
+    return values;
+  });
+  const keys = Array.from(new Set(properties.flatMap(values => Object.keys(values))));
+  const used = new Set([FID_COLUMN, GEOMETRY_COLUMN]);
+  const columns = new Map<string, { name: string; type: ColumnType }>();
+  keys.forEach(key => {
+    let name = key.trim() || 'campo';
+    for (let counter = 1; used.has(name.toLowerCase()); counter++) name = `${key.trim() || 'campo'}_${counter}`;
+    used.add(name.toLowerCase());
+    columns.set(key, { name, type: getColumnType(properties.map(values => values[key])) });
+  });
+  return columns;
+}
+
+function createMetadataTables(db: Database, projection: string, srsId: number) {
+  db.run(`PRAGMA application_id = ${GPKG_APPLICATION_ID}`);
+  db.run(`PRAGMA user_version = ${GPKG_USER_VERSION}`);
+  db.run(`CREATE TABLE gpkg_spatial_ref_sys (
+    srs_name TEXT NOT NULL, srs_id INTEGER PRIMARY KEY, organization TEXT NOT NULL,
+    organization_coordsys_id INTEGER NOT NULL, definition TEXT NOT NULL, description TEXT
+  )`);
+  db.run(`CREATE TABLE gpkg_contents (
+    table_name TEXT NOT NULL PRIMARY KEY, data_type TEXT NOT NULL, identifier TEXT UNIQUE, description TEXT DEFAULT '',
+    last_change DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+    min_x DOUBLE, min_y DOUBLE, max_x DOUBLE, max_y DOUBLE,
+    srs_id INTEGER, CONSTRAINT fk_gc_r_srs_id FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys(srs_id)
+  )`);
+  db.run(`CREATE TABLE gpkg_geometry_columns (
+    table_name TEXT NOT NULL, column_name TEXT NOT NULL, geometry_type_name TEXT NOT NULL,
+    srs_id INTEGER NOT NULL, z TINYINT NOT NULL, m TINYINT NOT NULL,
+    CONSTRAINT pk_geom_cols PRIMARY KEY (table_name, column_name),
+    CONSTRAINT fk_gc_tn FOREIGN KEY (table_name) REFERENCES gpkg_contents(table_name),
+    CONSTRAINT fk_gc_srs FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys (srs_id)
+  )`);
+
+  const insertSrs = 'INSERT INTO gpkg_spatial_ref_sys VALUES (?, ?, ?, ?, ?, ?)';
+  db.run(insertSrs, ['Undefined cartesian SRS', -1, 'NONE', -1, 'undefined', 'undefined cartesian coordinate reference system']);
+  db.run(insertSrs, ['Undefined geographic SRS', 0, 'NONE', 0, 'undefined', 'undefined geographic coordinate reference system']);
+  db.run(insertSrs, ['WGS 84 geodetic', 4326, 'EPSG', 4326, getProjectionWkt('EPSG:4326')!, 'longitude/latitude coordinates in decimal degrees on the WGS 84 spheroid']);
+  if (srsId !== 4326) {
+    const wkt = getProjectionWkt(projection);
+    if (!wkt) throw new Error(`No hay una definición WKT disponible para ${projection}.`);
+    db.run(insertSrs, [projection, srsId, 'EPSG', srsId, wkt, null]);
+  }
+}
+
+/**
+ * Writes each layer as a feature table of a new GeoPackage, with geometries transformed
+ * to `projection` (one of EXPORT_CRS_OPTIONS).
+ */
+export async function buildGeoPackage(layers: GeoPackageLayerInput[], projection: string): Promise<ArrayBuffer> {
+  const srsId = Number(projection.match(/^EPSG:(\d+)$/)?.[1]);
+  if (!srsId) throw new Error(`El sistema de referencia ${projection} no tiene un código EPSG.`);
+  registerProjections();
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+  try {
+    createMetadataTables(db, projection, srsId);
+    const wkbFormat = new WKB({ hex: false, ewkb: false, littleEndian: true });
+    const usedTableNames = new Set<string>();
+
+    layers.forEach(layer => {
+      const baseName = layer.name.trim() || 'capa';
+      let tableName = baseName;
+      for (let counter = 2; usedTableNames.has(tableName.toLowerCase()); counter++) tableName = `${baseName}_${counter}`;
+      usedTableNames.add(tableName.toLowerCase());
+
+      const columns = buildColumns(layer.features);
+      const columnDefinitions = Array.from(columns.values()).map(column => `, ${quoteIdentifier(column.name)} ${column.type}`).join('');
+      db.run(`CREATE TABLE ${quoteIdentifier(tableName)} (${FID_COLUMN} INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL, ${GEOMETRY_COLUMN} ${getGeometryTypeName(layer.features)}${columnDefinitions})`);
+
+      const columnNames = [GEOMETRY_COLUMN, ...Array.from(columns.values()).map(column => column.name)];
+      const insert = db.prepare(`INSERT INTO ${quoteIdentifier(tableName)} (${columnNames.map(quoteIdentifier).join(', ')}) VALUES (${columnNames.map(() => '?').join(', ')})`);
+      const extent = createEmpty();
+      try {
+        layer.features.forEach(feature => {
+          const geometry = feature.getGeometry() as Geometry | undefined;
+          let blob: Uint8Array | null = null;
+          if (geometry) {
+            const transformed = geometry.clone().transform('EPSG:3857', projection);
+            extend(extent, transformed.getExtent());
+            const wkb = new Uint8Array(wkbFormat.writeGeometry(transformed) as ArrayBuffer);
+            blob = writeGeometryBlob(transformed, wkb, srsId);
+          }
+          const values = Array.from(columns.entries()).map(([key, column]) => toSqlValue(feature.get(key), column.type));
+          insert.run([blob, ...values]);
+        });
+      } finally {
+        insert.free();
+      }
+
+      const bounds = isEmpty(extent) ? [null, null, null, null] : extent;
+      db.run('INSERT INTO gpkg_contents (table_name, data_type, identifier, min_x, min_y, max_x, max_y, srs_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [tableName, 'features', tableName, ...bounds, srsId]);
+      // Z and M are "optional" (2): drawn features are 2D, imported ones may carry either.
+      db.run('INSERT INTO gpkg_geometry_columns VALUES (?, ?, ?, ?, ?, ?)',
+        [tableName, GEOMETRY_COLUMN, getGeometryTypeName(layer.features), srsId, 2, 2]);
+    });
+
+    const bytes = db.export();
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,142 @@
+import { Feature } from 'ol';
+import type { Feature as OLFeature } from 'ol';
+import GPX from 'ol/format/GPX';
+import type Geometry from 'ol/geom/Geometry';
+import LineString from 'ol/geom/LineString';
+import MultiLineString from 'ol/geom/MultiLineString';
+import Point from 'ol/geom/Point';
+import type Polygon from 'ol/geom/Polygon';
+import type MultiPolygon from 'ol/geom/MultiPolygon';
+import type MultiPoint from 'ol/geom/MultiPoint';
+
+import { getGeodesicLength } from '@/lib/measurement';
+
+const MAP_PROJECTION = 'EPSG:3857';
+
+// Attribute names, in order of preference, written as a GPX <name> and <desc>.
+const NAME_PROPERTIES = ['name', 'nombre', 'Name', 'NOMBRE'];
+const DESCRIPTION_PROPERTIES = ['desc', 'descripcion', 'descripción', 'description'];
+
+export interface TrackSummary {
+  length: number; // meters, geodesic
+  duration: number | null; // seconds between the first and last timestamped vertex
+  elevationGain: number | null; // meters climbed, summed per segment
+}
+
+/**
+ * Reads waypoints (points), routes (lines) and tracks (multi-lines) in the map projection.
+ * Elevation and time stay in each vertex as Z and M (seconds since epoch); a waypoint also
+ * gets them as `ele` and `time` properties so they show up in the attribute table.
+ */
+export function readGpx(text: string): OLFeature<any>[] {
+  const features = new GPX().readFeatures(text, { dataProjection: 'EPSG:4326', featureProjection: MAP_PROJECTION }) as OLFeature<any>[];
+  features.forEach(feature => {
+    const geometry = feature.getGeometry();
+    if (!(geometry instanceof Point)) return;
+    const layout = geometry.getLayout();
+    const coordinate = geometry.getCoordinates();
+    if (layout === 'XYZ' || layout === 'XYZM') feature.set('ele', coordinate[2], true);
+    const time = layout === 'XYM' ? coordinate[2] : layout === 'XYZM' ? coordinate[3] : undefined;
+    if (time !== undefined) feature.set('time', new Date(time * 1000).toISOString(), true);
+  });
+  return features;
+}
+
+function findProperty(feature: OLFeature<any>, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = feature.get(name);
+    if (value !== undefined && value !== null && String(value).trim() !== '') return String(value);
+  }
+  return undefined;
+}
+
+/**
+ * GPX only holds waypoints, routes and tracks: points are written as waypoints, lines as
+ * routes, multi-lines as tracks, and polygon rings as the segments of a track.
+ */
+function toGpxGeometries(geometry: Geometry): (Point | LineString | MultiLineString)[] {
+  switch (geometry.getType()) {
+    case 'Point':
+    case 'LineString':
+    case 'MultiLineString':
+      return [geometry as Point | LineString | MultiLineString];
+    case 'MultiPoint':
+      return (geometry as MultiPoint).getPoints();
+    case 'Polygon':
+      return [new MultiLineString((geometry as Polygon).getLinearRings().map(ring => ring.getCoordinates()), (geometry as Polygon).getLayout())];
+    case 'MultiPolygon':
+      return [new MultiLineString(
+        (geometry as MultiPolygon).getPolygons().flatMap(polygon => polygon.getLinearRings().map(ring => ring.getCoordinates())),
+        (geometry as MultiPolygon).getLayout()
+      )];
+    default:
+      return [];
+  }
+}
+
+/** Writes the features as GPX 1.1, keeping only their name and description as attributes. */
+export function writeGpx(features: OLFeature<any>[]): string {
+  const gpxFeatures = features.flatMap(feature => {
+    const geometry = feature.getGeometry();
+    if (!geometry) return [];
+    const name = findProperty(feature, NAME_PROPERTIES);
+    const desc = findProperty(feature, DESCRIPTION_PROPERTIES);
+    return toGpxGeometries(geometry).map(gpxGeometry => {
+      const gpxFeature = new Feature(gpxGeometry);
+      if (name !== undefined) gpxFeature.set('name', name, true);
+      if (desc !== undefined) gpxFeature.set('desc', desc, true);
+      return gpxFeature;
+    });
+  });
+  return new GPX().writeFeatures(gpxFeatures, { dataProjection: 'EPSG:4326', featureProjection: MAP_PROJECTION });
+}
+
+/**
+ * Length, duration and elevation gain of a route or track. Returns null for other geometries
+ * and for lines without elevation or time, which have nothing beyond a plain length to show.
+ */
+export function getTrackSummary(geometry: Geometry | undefined): TrackSummary | null {
+  if (!(geometry instanceof LineString || geometry instanceof MultiLineString)) return null;
+  const layout = geometry.getLayout();
+  if (layout === 'XY') return null;
+  const zIndex = layout === 'XYZ' || layout === 'XYZM' ? 2 : -1;
+  const mIndex = layout === 'XYM' ? 2 : layout === 'XYZM' ? 3 : -1;
+  const segments = geometry instanceof LineString ? [geometry.getCoordinates()] : geometry.getCoordinates();
+
+  let elevationGain: number | null = null;
+  if (zIndex >= 0) {
+    elevationGain = 0;
+    segments.forEach(segment => {
+      for (let i = 1; i < segment.length; i++) {
+        const climb = segment[i][zIndex] - segment[i - 1][zIndex];
+        if (climb > 0) elevationGain! += climb;
+      }
+    });
+  }
+
+  let duration: number | null = null;
+  if (mIndex >= 0) {
+    // GPX vertices without a <time> are read with an M of 0.
+    let first = Infinity;
+    let last = -Infinity;
+    segments.forEach(segment => segment.forEach(coordinate => {
+      const time = coordinate[mIndex];
+      if (time > 0) {
+        first = Math.min(first, time);
+        last = Math.max(last, time);
+      }
+    }));
+    if (last > first) duration = last - first;
+  }
+
+  return { length: getGeodesicLength(geometry), duration, elevationGain };
+}
+
+/** Formats seconds as h:mm:ss. */
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+}
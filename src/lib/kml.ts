@@ -0,0 +1,201 @@
+import JSZip from 'jszip';
+import type { Feature as OLFeature } from 'ol';
+import KML from 'ol/format/KML';
+
+const MAP_PROJECTION = 'EPSG:3857';
+
+// NetworkLinks may point at each other; past this depth the rest are ignored.
+const MAX_NETWORK_LINK_DEPTH = 5;
+
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+};
+
+export interface KmlLayer {
+  name: string;
+  features: OLFeature<any>[]; // in the map projection, styled as in the file
+}
+
+export interface KmlReadResult {
+  layers: KmlLayer[];
+  warnings: string[]; // NetworkLinks that weren't followed
+  // Object URLs of the archive's icons, shared by all its layers; to be revoked once none is left.
+  objectUrls: string[];
+}
+
+interface KmlContainerFeatures {
+  path: string[]; // names of the Documents and Folders down to this one
+  features: OLFeature<any>[];
+}
+
+interface ReadContext {
+  zip: JSZip | null; // null for a plain KML, whose NetworkLinks can't be followed
+  imageUrls: Map<string, string>; // archive path -> object URL
+  visited: Set<string>;
+  warnings: string[];
+}
+
+function childElements(node: Element, localName: string): Element[] {
+  return Array.from(node.children).filter(child => child.localName === localName);
+}
+
+function getChildText(node: Element, localName: string): string | undefined {
+  const text = childElements(node, localName)[0]?.textContent?.trim();
+  return text ? text : undefined;
+}
+
+/** Resolves a relative href against an entry of the archive; null for absolute URLs. */
+function resolveArchivePath(fromEntry: string, href: string): string | null {
+  const trimmed = href.trim().replace(/\\/g, '/');
+  if (trimmed === '' || /^[a-z][a-z0-9+.-]*:/i.test(trimmed) || trimmed.startsWith('//') || trimmed.startsWith('#')) return null;
+  let decoded = trimmed;
+  try {
+    decoded = decodeURI(trimmed);
+  } catch {
+    // Keep the raw href when it isn't valid percent-encoding.
+  }
+  const segments = trimmed.startsWith('/') ? [] : fromEntry.split('/').slice(0, -1);
+  decoded.split('/').forEach(segment => {
+    if (segment === '..') segments.pop();
+    else if (segment !== '.' && segment !== '') segments.push(segment);
+  });
+  return segments.join('/');
+}
+
+function findArchiveEntry(zip: JSZip, path: string): JSZip.JSZipObject | null {
+  const exact = zip.file(path);
+  if (exact) return exact;
+  // Archives made on Windows don't always match the case of the hrefs.
+  const escapedPath = path.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return zip.file(new RegExp(`^${escapedPath}$`, 'i'))[0] ?? null;
+}
+
+/** The root KML of a KMZ: doc.kml by convention, otherwise the first .kml in the archive. */
+export function findRootKmlEntry(zip: JSZip): JSZip.JSZipObject | null {
+  return zip.file(/^doc\.kml$/i)[0] ?? zip.file(/\.kml$/i)[0] ?? null;
+}
+
+/** Points icon hrefs that refer to images inside the archive at object URLs of those images. */
+async function resolveArchiveImages(doc: Document, entryPath: string, context: ReadContext & { zip: JSZip }): Promise<void> {
+  for (const hrefElement of Array.from(doc.getElementsByTagNameNS('*', 'href'))) {
+    const path = resolveArchivePath(entryPath, hrefElement.textContent ?? '');
+    if (path === null) continue;
+    const extension = path.substring(path.lastIndexOf('.') + 1).toLowerCase();
+    const contentType = IMAGE_CONTENT_TYPES[extension];
+    if (!contentType) continue;
+    let url = context.imageUrls.get(path);
+    if (!url) {
+      const entry = findArchiveEntry(context.zip, path);
+      if (!entry) continue;
+      url = URL.createObjectURL(new Blob([await entry.async('arraybuffer')], { type: contentType }));
+      context.imageUrls.set(path, url);
+    }
+    hrefElement.textContent = url;
+  }
+}
+
+function parseKml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('El archivo KML no es XML válido.');
+  return doc;
+}
+
+/**
+ * Reads the placemarks of a KML grouped by the Document or Folder that holds them.
+ * NetworkLinks to other KML files of the same archive are followed, their content
+ * grouped under the link's name.
+ */
+async function readKmlContainers(text: string, entryPath: string, basePath: string[], context: ReadContext, depth: number): Promise<KmlContainerFeatures[]> {
+  const doc = parseKml(text);
+  const { zip } = context;
+  if (zip) await resolveArchiveImages(doc, entryPath, { ...context, zip });
+
+  // OpenLayers reads the whole file at once, which also picks up the shared styles;
+  // its features come in the document order of the placemarks walked below.
+  const features = new KML().readFeatures(doc, { dataProjection: 'EPSG:4326', featureProjection: MAP_PROJECTION }) as OLFeature<any>[];
+
+  const containers: KmlContainerFeatures[] = [];
+  const linked: Promise<KmlContainerFeatures[]>[] = [];
+  let placemarkIndex = 0;
+  const walk = (node: Element, path: string[]) => {
+    const container: KmlContainerFeatures = { path, features: [] };
+    containers.push(container);
+    Array.from(node.children).forEach(child => {
+      if (child.localName === 'Placemark') {
+        const feature = features[placemarkIndex++];
+        if (feature) container.features.push(feature);
+      } else if (child.localName === 'Document' || child.localName === 'Folder') {
+        const name = getChildText(child, 'name');
+        walk(child, name ? [...path, name] : path);
+      } else if (child.localName === 'NetworkLink') {
+        const link = childElements(child, 'Link')[0] ?? childElements(child, 'Url')[0];
+        const href = link ? getChildText(link, 'href') : undefined;
+        if (!href) return;
+        const linkedPath = zip ? resolveArchivePath(entryPath, href) : null;
+        const linkedEntry = zip && linkedPath ? findArchiveEntry(zip, linkedPath) : null;
+        if (!linkedEntry) {
+          context.warnings.push(`NetworkLink omitido (fuera del archivo): ${href}`);
+          return;
+        }
+        if (context.visited.has(linkedEntry.name)) {
+          context.warnings.push(`NetworkLink omitido (repetido): ${href}`);
+          return;
+        }
+        if (depth >= MAX_NETWORK_LINK_DEPTH) {
+          context.warnings.push(`NetworkLink omitido (demasiado anidado): ${href}`);
+          return;
+        }
+        context.visited.add(linkedEntry.name);
+        const name = getChildText(child, 'name');
+        linked.push(linkedEntry.async('text').then(linkedText =>
+          readKmlContainers(linkedText, linkedEntry.name, name ? [...path, name] : path, context, depth + 1)
+        ));
+      }
+    });
+  };
+  walk(doc.documentElement, basePath);
+
+  // The walk and OpenLayers disagree only on malformed files; keep every feature then.
+  if (placemarkIndex !== features.length) return [{ path: basePath, features }, ...(await Promise.all(linked)).flat()];
+  return [...containers, ...(await Promise.all(linked)).flat()];
+}
+
+/** One layer per Document or Folder with placemarks, named after its path in the file. */
+function toKmlLayers(containers: KmlContainerFeatures[], fileBaseName: string): KmlLayer[] {
+  const nonEmpty = containers.filter(container => container.features.length > 0);
+  if (nonEmpty.length === 1) return [{ name: fileBaseName, features: nonEmpty[0].features }];
+  return nonEmpty.map(container => ({
+    name: container.path.length > 0 ? container.path.join(' / ') : fileBaseName,
+    features: container.features,
+  }));
+}
+
+function createReadContext(zip: JSZip | null, visited: string[]): ReadContext {
+  return { zip, imageUrls: new Map(), visited: new Set(visited), warnings: [] };
+}
+
+function toKmlReadResult(containers: KmlContainerFeatures[], fileBaseName: string, context: ReadContext): KmlReadResult {
+  return {
+    layers: toKmlLayers(containers, fileBaseName),
+    warnings: context.warnings,
+    objectUrls: Array.from(context.imageUrls.values()),
+  };
+}
+
+export async function readKmlLayers(text: string, fileBaseName: string): Promise<KmlReadResult> {
+  const context = createReadContext(null, []);
+  return toKmlReadResult(await readKmlContainers(text, '', [], context, 0), fileBaseName, context);
+}
+
+/** Reads a KMZ (or any zip with KML), resolving icons and NetworkLinks inside the archive. */
+export async function readKmzLayers(zip: JSZip, fileBaseName: string): Promise<KmlReadResult | null> {
+  const rootEntry = findRootKmlEntry(zip);
+  if (!rootEntry) return null;
+  const context = createReadContext(zip, [rootEntry.name]);
+  return toKmlReadResult(await readKmlContainers(await rootEntry.async('text'), rootEntry.name, [], context, 0), fileBaseName, context);
+}
@@ -0,0 +1,163 @@
+import JSZip from 'jszip';
+import type { Feature as OLFeature } from 'ol';
+import { GeoJSON, KML } from 'ol/format';
+
+import { buildGeoPackage } from '@/lib/geopackage';
+import { writeGpx } from '@/lib/gpx';
+import { buildShapefileZip, sanitizeFileName } from '@/lib/shapefile';
+import { getGeoJsonCrsMember, getProjectionWkt, registerProjections } from '@/lib/projections';
+
+export type ExportFormat = 'geojson' | 'kml' | 'gpx' | 'shp' | 'gpkg';
+
+export const EXPORT_FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'geojson', label: 'GeoJSON' },
+  { value: 'kml', label: 'KML' },
+  { value: 'gpx', label: 'GPX' },
+  { value: 'shp', label: 'Shapefile (ZIP)' },
+  { value: 'gpkg', label: 'GeoPackage' },
+];
+
+// Property added to each feature of a merged export, so the source layer isn't lost.
+export const MERGED_LAYER_PROPERTY = 'capa';
+
+const MAP_PROJECTION = 'EPSG:3857';
+
+export interface ExportLayerInput {
+  name: string;
+  features: OLFeature<any>[]; // in the map projection, carrying the properties to export
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  projection: string; // ignored for KML and GPX, which are always lon/lat
+  merge: boolean; // one dataset for all layers instead of one per layer
+  fileName: string; // without extension
+}
+
+export interface ExportFile {
+  content: string | ArrayBuffer;
+  fileName: string;
+  contentType: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat | 'zip', string> = {
+  geojson: 'application/geo+json;charset=utf-8',
+  kml: 'application/vnd.google-earth.kml+xml;charset=utf-8',
+  gpx: 'application/gpx+xml;charset=utf-8',
+  shp: 'application/zip',
+  gpkg: 'application/geopackage+sqlite3',
+  zip: 'application/zip',
+};
+
+export function isLonLatOnlyFormat(format: string): boolean {
+  return format === 'kml' || format === 'gpx';
+}
+
+/** GeoJSON in `projection`, tagged with a legacy `crs` member unless it's lon/lat. */
+export function writeGeoJsonInProjection(features: OLFeature<any>[], projection: string): string {
+  registerProjections();
+  const featureCollection = new GeoJSON().writeFeaturesObject(features, { dataProjection: projection, featureProjection: MAP_PROJECTION });
+  const crs = getGeoJsonCrsMember(projection);
+  return JSON.stringify(crs ? { ...featureCollection, crs } : featureCollection);
+}
+
+/**
+ * The KML writer skips undefined properties but writes null ones as the text "null",
+ * so the empty fields other formats keep as columns are left out of the placemark.
+ */
+function withoutNullProperties(feature: OLFeature<any>): OLFeature<any> {
+  const properties = feature.getProperties();
+  const nullKeys = Object.keys(properties).filter(key => properties[key] === null);
+  if (nullKeys.length === 0) return feature;
+  const clone = feature.clone();
+  clone.setId(feature.getId());
+  nullKeys.forEach(key => clone.unset(key, true));
+  return clone;
+}
+
+export function writeKml(features: OLFeature<any>[]): string {
+  return new KML().writeFeatures(features.map(withoutNullProperties), { dataProjection: 'EPSG:4326', featureProjection: MAP_PROJECTION });
+}
+
+export function buildShapefileZipInProjection(layers: ExportLayerInput[], projection: string): Promise<ArrayBuffer> {
+  registerProjections();
+  const prj = getProjectionWkt(projection);
+  if (!prj) throw new Error(`No hay un archivo .prj disponible para ${projection}.`);
+  return buildShapefileZip(layers
+    .map(layer => ({
+      name: layer.name,
+      featureCollection: new GeoJSON().writeFeaturesObject(layer.features, { dataProjection: projection, featureProjection: MAP_PROJECTION }),
+    }))
+    .filter(layer => layer.featureCollection.features.length > 0), prj);
+}
+
+/** Combines the layers into one; `tagLayerName` records each feature's layer in MERGED_LAYER_PROPERTY. */
+function mergeLayers(layers: ExportLayerInput[], name: string, tagLayerName: boolean): ExportLayerInput {
+  if (!tagLayerName) return { name, features: layers.flatMap(layer => layer.features) };
+  return {
+    name,
+    features: layers.flatMap(layer => layer.features.map(feature => {
+      const clone = feature.clone();
+      clone.set(MERGED_LAYER_PROPERTY, layer.name, true);
+      return clone;
+    })),
+  };
+}
+
+function writeTextFile(layer: ExportLayerInput, format: 'geojson' | 'kml' | 'gpx', projection: string): string {
+  if (format === 'gpx') return writeGpx(layer.features);
+  return format === 'geojson' ? writeGeoJsonInProjection(layer.features, projection) : writeKml(layer.features);
+}
+
+/**
+ * Writes the layers as a single file, or as a zip with one file per layer. Shapefiles
+ * always come zipped, one set per layer (or one for all of them when merging), and
+ * GeoPackages hold one table per layer.
+ */
+export async function buildLayerExport(layers: ExportLayerInput[], options: ExportOptions): Promise<ExportFile> {
+  const nonEmptyLayers = layers.filter(layer => layer.features.length > 0);
+  if (nonEmptyLayers.length === 0) throw new Error("Las capas seleccionadas no tienen entidades.");
+  const baseName = sanitizeFileName(options.fileName);
+  // Tagged whenever several layers were asked for, even if all but one turn out empty, as the dialog says.
+  const datasets = options.merge ? [mergeLayers(nonEmptyLayers, baseName, layers.length > 1)] : nonEmptyLayers;
+
+  if (options.format === 'shp') {
+    return {
+      content: await buildShapefileZipInProjection(datasets, options.projection),
+      fileName: `${baseName}_shp.zip`,
+      contentType: CONTENT_TYPES.shp,
+    };
+  }
+
+  if (options.format === 'gpkg') {
+    return {
+      content: await buildGeoPackage(datasets, options.projection),
+      fileName: `${baseName}.gpkg`,
+      contentType: CONTENT_TYPES.gpkg,
+    };
+  }
+
+  const format = options.format;
+  if (datasets.length === 1) {
+    return {
+      content: writeTextFile(datasets[0], format, options.projection),
+      fileName: `${baseName}.${format}`,
+      contentType: CONTENT_TYPES[format],
+    };
+  }
+
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  datasets.forEach(dataset => {
+    const datasetName = sanitizeFileName(dataset.name);
+    let fileName = datasetName;
+    for (let counter = 2; usedNames.has(fileName.toLowerCase()); counter++) fileName = `${datasetName}_${counter}`;
+    usedNames.add(fileName.toLowerCase());
+    zip.file(`${fileName}.${format}`, writeTextFile(dataset, format, options.projection));
+  });
+  return {
+    content: await zip.generateAsync({ type: 'arraybuffer' }),
+    fileName: `${baseName}_${format}.zip`,
+    contentType: CONTENT_TYPES.zip,
+  };
+}
@@ -0,0 +1,422 @@
+import JSZip from 'jszip';
+import shpjs from 'shpjs';
+import type { Feature as OLFeature } from 'ol';
+import { createEmpty, extend, type Extent } from 'ol/extent';
+import GeoJSON from 'ol/format/GeoJSON';
+
+import { readGeoPackage } from '@/lib/geopackage';
+import { readGpx } from '@/lib/gpx';
+import { findRootKmlEntry, readKmlLayers, readKmzLayers, type KmlReadResult } from '@/lib/kml';
+import { getGeoJsonProjection, resolveProjection } from '@/lib/projections';
+
+export const IMPORT_FILE_ACCEPT = '.kml,.kmz,.gpx,.geojson,.json,.gpkg,.csv,.tsv,.txt,.xlsx,.zip,.shp,.dbf,.prj,.cpg';
+
+export const MAP_PROJECTION = 'EPSG:3857';
+
+// Loose parts of a shapefile, grouped by basename into a single dataset.
+const SHAPEFILE_PART_EXTENSIONS = ['shp', 'dbf', 'prj', 'cpg', 'shx'];
+const TABLE_EXTENSIONS = ['csv', 'tsv', 'txt', 'xlsx'];
+
+export interface ImportDataset {
+  name: string; // the file name, or that of the .shp for a set of loose shapefile parts
+  files: File[];
+}
+
+export type ImportStage = 'reading' | 'parsing' | 'projecting' | 'encoding' | 'decoding';
+
+export interface ImportProgress {
+  stage: ImportStage;
+  fraction: number | null; // null while the stage can't tell how far along it is
+}
+
+export type ImportProgressCallback = (progress: ImportProgress) => void;
+
+/** Passes the progress on only when the stage changes or it moves by a percent, not on every chunk read. */
+export function throttleImportProgress(onProgress: ImportProgressCallback): ImportProgressCallback {
+  let last: ImportProgress | null = null;
+  return progress => {
+    if (last && last.stage === progress.stage && (progress.fraction === null || (last.fraction !== null && Math.abs(progress.fraction - last.fraction) < 0.01))) return;
+    last = progress;
+    onProgress(progress);
+  };
+}
+
+export interface ImportedLayerData {
+  name: string;
+  features: OLFeature<any>[];
+  // As declared by the file: undefined when it declares no CRS, null when the CRS can't be
+  // resolved. Readers that already produce map coordinates declare the map projection.
+  projection: string | null | undefined;
+  objectUrls?: string[]; // images the features' styles point to, to revoke once the layer is gone
+}
+
+/** The layers read from a dataset, and what of it was left out. */
+export interface ImportedDataset {
+  layers: ImportedLayerData[];
+  warnings: string[]; // for the import report
+  skippedLayerCount: number; // layers of the file that couldn't be read, told in `warnings`
+}
+
+/** The files of a KMZ, or of a zip without shapefiles, unpacked for the KML in them to be read with a DOM. */
+export interface ImportArchive {
+  fileName: string;
+  entries: { path: string; data: ArrayBuffer }[];
+}
+
+export function getFileExtension(fileName: string): string {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex === -1 ? '' : fileName.substring(dotIndex + 1).toLowerCase();
+}
+
+export function getFileBaseName(fileName: string): string {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex <= 0 ? fileName : fileName.substring(0, dotIndex);
+}
+
+export function isTableFile(fileName: string): boolean {
+  return TABLE_EXTENSIONS.includes(getFileExtension(fileName));
+}
+
+function isShapefilePart(fileName: string): boolean {
+  return SHAPEFILE_PART_EXTENSIONS.includes(getFileExtension(fileName));
+}
+
+/** Extent of the features' geometries, in whatever coordinates they come in. */
+export function getFeaturesExtent(features: OLFeature<any>[]): Extent {
+  const extent = createEmpty();
+  features.forEach(feature => {
+    const geometry = feature.getGeometry();
+    if (geometry) extend(extent, geometry.getExtent());
+  });
+  return extent;
+}
+
+/**
+ * Splits a file selection or drop into datasets: every file on its own, except loose
+ * shapefile parts, which are grouped by basename. Datasets keep the order of the files.
+ */
+export function groupImportFiles(files: File[]): ImportDataset[] {
+  const datasets: ImportDataset[] = [];
+  const shapefileSets = new Map<string, ImportDataset>();
+  files.forEach(file => {
+    if (!isShapefilePart(file.name)) {
+      datasets.push({ name: file.name, files: [file] });
+      return;
+    }
+    const key = getFileBaseName(file.name).toLowerCase();
+    let dataset = shapefileSets.get(key);
+    if (!dataset) {
+      dataset = { name: file.name, files: [] };
+      shapefileSets.set(key, dataset);
+      datasets.push(dataset);
+    }
+    if (getFileExtension(file.name) === 'shp') dataset.name = file.name;
+    dataset.files.push(file);
+  });
+  return datasets;
+}
+
+/** The encoding named by a .cpg file, as the DBF reader expects it. */
+export function readCpgEncoding(cpgText: string): string {
+  const encoding = cpgText.trim();
+  // Windows code page 65001 is UTF-8.
+  return encoding === '65001' ? 'utf-8' : encoding;
+}
+
+// Code pages named by the language driver byte of a DBF header, among those TextDecoder knows.
+const DBF_LANGUAGE_DRIVER_ENCODINGS: Record<number, string> = {
+  0x03: 'windows-1252',
+  0x57: 'windows-1252',
+  0x58: 'windows-1252',
+  0x59: 'windows-1252',
+  0x65: 'ibm866',
+  0x7c: 'windows-874',
+  0xc8: 'windows-1250',
+  0xc9: 'windows-1251',
+  0xca: 'windows-1254',
+  0xcb: 'windows-1253',
+  0x7d: 'windows-1255',
+  0x7e: 'windows-1256',
+  0x13: 'shift_jis',
+  0x7b: 'shift_jis',
+  0x4d: 'gbk',
+  0x7a: 'gbk',
+  0x4e: 'euc-kr',
+  0x79: 'euc-kr',
+  0x4f: 'big5',
+  0x78: 'big5',
+};
+
+/**
+ * The encoding of a DBF that comes without a .cpg: the code page its header names, unless that's
+ * none or Windows-1252 (which some writers set regardless); then UTF-8 if its records decode as
+ * such, else Windows-1252, that of most legacy shapefiles in Spanish.
+ */
+function detectDbfEncoding(dbf: ArrayBuffer): string {
+  if (dbf.byteLength < 32) return 'utf-8';
+  const header = new DataView(dbf);
+  const namedEncoding = DBF_LANGUAGE_DRIVER_ENCODINGS[header.getUint8(29)];
+  if (namedEncoding && namedEncoding !== 'windows-1252') return namedEncoding;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(new Uint8Array(dbf, Math.min(header.getUint16(8, true), dbf.byteLength)));
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+type BufferReader = (file: Blob) => Promise<ArrayBuffer>;
+
+/** Reads files in chunks, reporting the bytes read over all the files of the dataset. */
+function createBufferReader(files: Blob[], onProgress?: ImportProgressCallback): BufferReader {
+  const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+  let loadedBytes = 0;
+  return async file => {
+    if (!onProgress) return file.arrayBuffer();
+    const bytes = new Uint8Array(file.size);
+    const reader = file.stream().getReader();
+    let offset = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytes.set(value, offset);
+      offset += value.length;
+      loadedBytes += value.length;
+      onProgress({ stage: 'reading', fraction: totalBytes > 0 ? loadedBytes / totalBytes : null });
+    }
+    return bytes.buffer;
+  };
+}
+
+async function readFileText(readFile: BufferReader, file: Blob): Promise<string> {
+  return new TextDecoder().decode(await readFile(file));
+}
+
+function readShapefileFeatures(shp: ArrayBuffer, dbf: ArrayBuffer, cpgText: string | null): OLFeature<any>[] {
+  const geojson = shpjs.combine([shpjs.parseShp(shp), shpjs.parseDbf(dbf, cpgText === null ? detectDbfEncoding(dbf) : readCpgEncoding(cpgText))]);
+  // Same data and feature projection: keeps the raw coordinates, to be projected by the caller.
+  return new GeoJSON().readFeatures(geojson, { dataProjection: 'EPSG:4326', featureProjection: 'EPSG:4326' }) as OLFeature<any>[];
+}
+
+function withoutWarnings(layers: ImportedLayerData[]): ImportedDataset {
+  return { layers, warnings: [], skippedLayerCount: 0 };
+}
+
+function toImportedKmlDataset(result: KmlReadResult): ImportedDataset {
+  return {
+    layers: result.layers.map(layer => ({ ...layer, projection: MAP_PROJECTION, objectUrls: result.objectUrls })),
+    warnings: result.warnings,
+    skippedLayerCount: 0,
+  };
+}
+
+async function readShapefileSet(dataset: ImportDataset, readFile: BufferReader, onProgress?: ImportProgressCallback): Promise<ImportedLayerData[]> {
+  const findPart = (extension: string) => dataset.files.find(file => getFileExtension(file.name) === extension);
+  const shpFile = findPart('shp');
+  const dbfFile = findPart('dbf');
+  if (!shpFile || !dbfFile) {
+    throw new Error(`Faltan archivos de ${dataset.name}: un Shapefile requiere al menos los archivos .shp y .dbf.`);
+  }
+  const prjFile = findPart('prj');
+  const cpgFile = findPart('cpg');
+  const prjText = prjFile ? await readFileText(readFile, prjFile) : null;
+  const cpgText = cpgFile ? await readFileText(readFile, cpgFile) : null;
+  const shpBuffer = await readFile(shpFile);
+  const dbfBuffer = await readFile(dbfFile);
+  onProgress?.({ stage: 'parsing', fraction: null });
+  return [{
+    name: getFileBaseName(shpFile.name),
+    features: readShapefileFeatures(shpBuffer, dbfBuffer, cpgText),
+    projection: prjText === null ? undefined : resolveProjection(prjText),
+  }];
+}
+
+function createMissingKmlError(fileName: string): Error {
+  return new Error(`Archivo KMZ/ZIP ${fileName} no contiene un archivo KML válido.`);
+}
+
+function createMissingZipLayersError(fileName: string, shapefileWarnings: string[]): Error {
+  const missingParts = shapefileWarnings.map(warning => `; ${warning}`).join('');
+  return new Error(`Archivo ZIP ${fileName} no contiene un Shapefile válido (archivos .shp y .dbf) ni un archivo KML${missingParts}.`);
+}
+
+async function readKmz(file: File, readFile: BufferReader, onProgress?: ImportProgressCallback): Promise<ImportedDataset> {
+  const zip = await JSZip.loadAsync(await readFile(file));
+  onProgress?.({ stage: 'parsing', fraction: null });
+  const result = await readKmzLayers(zip, getFileBaseName(file.name));
+  if (!result) throw createMissingKmlError(file.name);
+  return toImportedKmlDataset(result);
+}
+
+/** Unpacks an archive that has a KML in it; null when it has none. */
+async function extractKmlArchive(zip: JSZip, fileName: string): Promise<ImportArchive | null> {
+  if (!findRootKmlEntry(zip)) return null;
+  const files: [string, JSZip.JSZipObject][] = [];
+  zip.forEach((relativePath, entry) => {
+    if (!entry.dir && !relativePath.startsWith('__MACOSX/')) files.push([relativePath, entry]);
+  });
+  const entries: ImportArchive['entries'] = [];
+  for (const [path, entry] of files) entries.push({ path, data: await entry.async('arraybuffer') });
+  return { fileName, entries };
+}
+
+/** Reads the KML of an archive unpacked by readImportDatasetWithoutDom. */
+export async function readImportArchive(archive: ImportArchive): Promise<ImportedDataset> {
+  const zip = new JSZip();
+  archive.entries.forEach(entry => zip.file(entry.path, entry.data));
+  const result = await readKmzLayers(zip, getFileBaseName(archive.fileName));
+  if (!result) throw createMissingKmlError(archive.fileName);
+  return toImportedKmlDataset(result);
+}
+
+interface ZipShapefileSet {
+  path: string; // path in the archive without extension
+  parts: Map<string, JSZip.JSZipObject>; // extension -> entry
+}
+
+function getZipShapefileSetName(set: ZipShapefileSet): string {
+  return set.path.substring(set.path.lastIndexOf('/') + 1);
+}
+
+/** Groups the shapefile parts of an archive by their path without extension, in archive order. */
+function groupZipShapefileSets(zip: JSZip): ZipShapefileSet[] {
+  const sets = new Map<string, ZipShapefileSet>();
+  zip.forEach((relativePath, entry) => {
+    // Skip the resource forks macOS adds to the zips it makes.
+    if (entry.dir || relativePath.startsWith('__MACOSX/') || !isShapefilePart(relativePath)) return;
+    const extension = getFileExtension(relativePath);
+    const path = relativePath.substring(0, relativePath.length - extension.length - 1);
+    const key = path.toLowerCase();
+    let set = sets.get(key);
+    if (!set) {
+      set = { path, parts: new Map() };
+      sets.set(key, set);
+    }
+    set.parts.set(extension, entry);
+  });
+  return Array.from(sets.values());
+}
+
+/** Reads every set of the archive with both a .shp and a .dbf; those missing either are told in the warnings. */
+async function readZipShapefiles(zip: JSZip, file: File, onProgress?: ImportProgressCallback): Promise<ImportedDataset> {
+  const baseName = getFileBaseName(file.name);
+  const warnings: string[] = [];
+  const shapefileSets = groupZipShapefileSets(zip).filter(set => {
+    if (set.parts.has('shp') && set.parts.has('dbf')) return true;
+    if (set.parts.has('shp') || set.parts.has('dbf')) warnings.push(`falta ${getZipShapefileSetName(set)}.${set.parts.has('shp') ? 'dbf' : 'shp'}`);
+    return false;
+  });
+
+  const layers: ImportedLayerData[] = [];
+  for (const [index, set] of shapefileSets.entries()) {
+    onProgress?.({ stage: 'parsing', fraction: index / shapefileSets.length });
+    const prjEntry = set.parts.get('prj');
+    const cpgEntry = set.parts.get('cpg');
+    const prjText = prjEntry ? await prjEntry.async('text') : null;
+    layers.push({
+      name: shapefileSets.length > 1 ? `${baseName} - ${getZipShapefileSetName(set)}` : baseName,
+      features: readShapefileFeatures(
+        await set.parts.get('shp')!.async('arraybuffer'),
+        await set.parts.get('dbf')!.async('arraybuffer'),
+        cpgEntry ? await cpgEntry.async('text') : null
+      ),
+      projection: prjText === null ? undefined : resolveProjection(prjText),
+    });
+  }
+  return { layers, warnings, skippedLayerCount: warnings.length };
+}
+
+async function readZip(file: File, readFile: BufferReader, onProgress?: ImportProgressCallback): Promise<ImportedDataset> {
+  const zip = await JSZip.loadAsync(await readFile(file));
+  const shapefiles = await readZipShapefiles(zip, file, onProgress);
+  if (shapefiles.layers.length > 0) return shapefiles;
+
+  const kmlResult = await readKmzLayers(zip, getFileBaseName(file.name));
+  if (kmlResult) return toImportedKmlDataset(kmlResult);
+  throw createMissingZipLayersError(file.name, shapefiles.warnings);
+}
+
+async function readGeoJsonFile(file: File, readFile: BufferReader, onProgress?: ImportProgressCallback): Promise<ImportedLayerData[]> {
+  const text = await readFileText(readFile, file);
+  onProgress?.({ stage: 'parsing', fraction: null });
+  const geojson = JSON.parse(text);
+  const features = new GeoJSON().readFeatures(geojson, { dataProjection: 'EPSG:4326', featureProjection: 'EPSG:4326' }) as OLFeature<any>[];
+  return [{ name: getFileBaseName(file.name), features, projection: getGeoJsonProjection(geojson) }];
+}
+
+async function readGeoPackageFile(file: File, readFile: BufferReader, onProgress?: ImportProgressCallback): Promise<ImportedLayerData[]> {
+  const buffer = await readFile(file);
+  onProgress?.({ stage: 'parsing', fraction: null });
+  // A GeoPackage can hold several feature tables; each one becomes a layer.
+  const gpkgLayers = (await readGeoPackage(buffer)).filter(layer => layer.features.length > 0);
+  const baseName = getFileBaseName(file.name);
+  return gpkgLayers.map(layer => ({
+    name: gpkgLayers.length > 1 ? `${baseName} - ${layer.name}` : baseName,
+    features: layer.features,
+    projection: layer.projection,
+  }));
+}
+
+/**
+ * Reads the datasets that can be parsed without a DOM, i.e. in a worker: shapefiles (loose or
+ * zipped), GeoJSON and GeoPackage. A KMZ, or a zip with KML in it, comes back unpacked for
+ * readImportArchive. Resolves to null for the rest, which readImportDataset reads.
+ */
+export async function readImportDatasetWithoutDom(dataset: ImportDataset, onProgress?: ImportProgressCallback): Promise<ImportedDataset | ImportArchive | null> {
+  const readFile = createBufferReader(dataset.files, onProgress);
+  if (dataset.files.length > 1 || isShapefilePart(dataset.files[0].name)) return withoutWarnings(await readShapefileSet(dataset, readFile, onProgress));
+
+  const file = dataset.files[0];
+  switch (getFileExtension(file.name)) {
+    case 'kmz': {
+      const archive = await extractKmlArchive(await JSZip.loadAsync(await readFile(file)), file.name);
+      if (!archive) throw createMissingKmlError(file.name);
+      return archive;
+    }
+    case 'zip': {
+      const zip = await JSZip.loadAsync(await readFile(file));
+      const shapefiles = await readZipShapefiles(zip, file, onProgress);
+      if (shapefiles.layers.length > 0) return shapefiles;
+      const archive = await extractKmlArchive(zip, file.name);
+      if (!archive) throw createMissingZipLayersError(file.name, shapefiles.warnings);
+      return archive;
+    }
+    case 'geojson':
+    case 'json':
+      return withoutWarnings(await readGeoJsonFile(file, readFile, onProgress));
+    case 'gpkg':
+      return withoutWarnings(await readGeoPackageFile(file, readFile, onProgress));
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads every layer of a dataset other than a table, which needs its columns mapped first.
+ * Features come with the coordinates found in the file, in the returned projection.
+ */
+export async function readImportDataset(dataset: ImportDataset, onProgress?: ImportProgressCallback): Promise<ImportedDataset> {
+  const readFile = createBufferReader(dataset.files, onProgress);
+  if (dataset.files.length > 1 || isShapefilePart(dataset.files[0].name)) return withoutWarnings(await readShapefileSet(dataset, readFile, onProgress));
+
+  const file = dataset.files[0];
+  const baseName = getFileBaseName(file.name);
+  const fileExtension = getFileExtension(file.name);
+  switch (fileExtension) {
+    case 'kmz':
+      return readKmz(file, readFile, onProgress);
+    case 'zip':
+      return readZip(file, readFile, onProgress);
+    case 'kml':
+      return toImportedKmlDataset(await readKmlLayers(await readFileText(readFile, file), baseName));
+    case 'gpx':
+      return withoutWarnings([{ name: baseName, features: readGpx(await readFileText(readFile, file)), projection: MAP_PROJECTION }]);
+    case 'geojson':
+    case 'json':
+      return withoutWarnings(await readGeoJsonFile(file, readFile, onProgress));
+    case 'gpkg':
+      return withoutWarnings(await readGeoPackageFile(file, readFile, onProgress));
+    default:
+      throw new Error(`Tipo de archivo no soportado: .${fileExtension}. Por favor, cargue KML, KMZ, GPX, GeoJSON, GeoPackage, CSV, TSV, XLSX, un ZIP conteniendo Shapefiles o los archivos .shp y .dbf.`);
+  }
+}
@@ -0,0 +1,105 @@
+import type { Extent } from 'ol/extent';
+
+import { encodeFeatures, type FeatureBuffers } from '@/lib/feature-buffers';
+import {
+  getFeaturesExtent,
+  MAP_PROJECTION,
+  readImportDatasetWithoutDom,
+  throttleImportProgress,
+  type ImportArchive,
+  type ImportDataset,
+  type ImportedLayerData,
+  type ImportProgress,
+  type ImportProgressCallback,
+} from '@/lib/layer-import';
+import { getProjectionDefinition, resolveProjection } from '@/lib/projections';
+
+/**
+ * A dataset is read first; its layers stay in the worker until the main thread, having settled
+ * each one's CRS (asking the user if need be), asks for them one at a time in the map projection.
+ */
+export type ImportWorkerTask =
+  | { type: 'read'; dataset: ImportDataset }
+  | { type: 'project'; layerIndex: number; projection: string }; // a definition from getProjectionDefinition
+
+export interface ImportWorkerRequest {
+  id: number;
+  task: ImportWorkerTask;
+}
+
+export interface ImportWorkerLayer {
+  name: string;
+  featureCount: number;
+  extent: Extent; // of the raw coordinates
+  projection: string | null | undefined; // for resolveProjection on the main thread
+}
+
+export type ImportWorkerResult =
+  | { type: 'unsupported' } // read it on the main thread
+  | { type: 'archive'; archive: ImportArchive }
+  | { type: 'layers'; layers: ImportWorkerLayer[]; warnings: string[]; skippedLayerCount: number }
+  | { type: 'features'; features: FeatureBuffers }; // in the map projection
+
+export type ImportWorkerResponse =
+  | { id: number; type: 'progress'; progress: ImportProgress }
+  | { id: number; type: 'result'; result: ImportWorkerResult }
+  | { id: number; type: 'error'; message: string };
+
+// Layers of the last dataset read, each released once it has been sent.
+let readLayers: (ImportedLayerData | null)[] = [];
+
+function post(response: ImportWorkerResponse, transfer: ArrayBuffer[] = []) {
+  self.postMessage(response, { transfer });
+}
+
+async function readDataset(id: number, dataset: ImportDataset, reportProgress: ImportProgressCallback) {
+  readLayers = [];
+  const imported = await readImportDatasetWithoutDom(dataset, reportProgress);
+  if (!imported) {
+    post({ id, type: 'result', result: { type: 'unsupported' } });
+  } else if ('entries' in imported) {
+    post({ id, type: 'result', result: { type: 'archive', archive: imported } }, imported.entries.map(entry => entry.data));
+  } else {
+    readLayers = imported.layers;
+    const layers = imported.layers.map(data => ({
+      name: data.name,
+      featureCount: data.features.length,
+      extent: getFeaturesExtent(data.features),
+      projection: data.projection && getProjectionDefinition(data.projection),
+    }));
+    post({ id, type: 'result', result: { type: 'layers', layers, warnings: imported.warnings, skippedLayerCount: imported.skippedLayerCount } });
+  }
+}
+
+function projectLayer(id: number, layerIndex: number, definition: string, reportProgress: ImportProgressCallback) {
+  const data = readLayers[layerIndex];
+  if (!data) throw new Error('La capa ya no está disponible en el worker de importación.');
+  readLayers[layerIndex] = null;
+  const projection = resolveProjection(definition);
+  if (!projection) throw new Error('No se pudo interpretar el sistema de referencia indicado.');
+
+  const { features } = data;
+  if (projection !== MAP_PROJECTION) {
+    features.forEach((feature, i) => {
+      feature.getGeometry()?.transform(projection, MAP_PROJECTION);
+      if (i % 1000 === 999) reportProgress({ stage: 'projecting', fraction: (i + 1) / features.length });
+    });
+  }
+  const encoded = encodeFeatures(features, fraction => reportProgress({ stage: 'encoding', fraction }));
+  post({ id, type: 'result', result: { type: 'features', features: encoded.buffers } }, encoded.transfer);
+}
+
+self.onmessage = async (event: MessageEvent<ImportWorkerRequest>) => {
+  const { id, task } = event.data;
+  const reportProgress = throttleImportProgress(progress => post({ id, type: 'progress', progress }));
+  try {
+    if (task.type === 'read') {
+      await readDataset(id, task.dataset, reportProgress);
+    } else {
+      projectLayer(id, task.layerIndex, task.projection, reportProgress);
+    }
+  } catch (error: any) {
+    console.error(task.type === 'read' ? `Error leyendo ${task.dataset.name} en el worker:` : 'Error reproyectando en el worker:', error);
+    post({ id, type: 'error', message: error?.message || 'Ocurrió un error desconocido.' });
+  }
+};
@@ -0,0 +1,261 @@
+import { Style, Fill, Stroke, Circle as CircleStyle, RegularShape } from 'ol/style';
+import type { StyleFunction, StyleLike } from 'ol/style/Style';
+import { asArray } from 'ol/color';
+import type VectorLayerType from 'ol/layer/Vector';
+import type VectorSourceType from 'ol/source/Vector';
+import type { Feature as OLFeature } from 'ol';
+import type { FeatureLike } from 'ol/Feature';
+
+import {
+  computeBreaks,
+  getCategoryColor,
+  interpolateRamp,
+  toNumericValue,
+  type ClassificationMethod,
+} from '@/lib/classification';
+
+export type StrokeDash = 'solid' | 'dashed' | 'dotted' | 'dash-dot';
+export type PointSymbol = 'circle' | 'square' | 'triangle' | 'star' | 'cross';
+
+/**
+ * Serializable description of a vector layer style. Stored on `MapLayer` and
+ * turned into an OpenLayers `Style` with `createOLStyle`.
+ */
+export interface LayerStyle {
+  fillColor: string;
+  fillOpacity: number;
+  strokeColor: string;
+  strokeWidth: number;
+  strokeDash: StrokeDash;
+  pointRadius: number;
+  pointSymbol: PointSymbol;
+  thematic?: ThematicStyle;
+}
+
+export interface CategorizedClass {
+  value: string;
+  color: string;
+}
+
+export interface GraduatedClass {
+  min: number;
+  max: number;
+  color: string;
+}
+
+/**
+ * Symbolizes features by one of their properties. Features without a matching
+ * class fall back to the base `LayerStyle`.
+ */
+export type ThematicStyle =
+  | { mode: 'categorized'; field: string; classes: CategorizedClass[] }
+  | { mode: 'graduated'; field: string; method: ClassificationMethod; rampId: string; classes: GraduatedClass[] };
+
+// Beyond this many unique values the remaining ones are drawn with the base style.
+export const MAX_CATEGORIES = 50;
+
+export interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+// Mirrors the OpenLayers default vector style so untouched layers look the same.
+export const DEFAULT_LAYER_STYLE: LayerStyle = {
+  fillColor: '#ffffff',
+  fillOpacity: 0.4,
+  strokeColor: '#3399cc',
+  strokeWidth: 1.25,
+  strokeDash: 'solid',
+  pointRadius: 5,
+  pointSymbol: 'circle',
+};
+
+export const STROKE_DASH_OPTIONS: { value: StrokeDash; label: string }[] = [
+  { value: 'solid', label: 'Continua' },
+  { value: 'dashed', label: 'Guiones' },
+  { value: 'dotted', label: 'Puntos' },
+  { value: 'dash-dot', label: 'Guion-punto' },
+];
+
+export const POINT_SYMBOL_OPTIONS: { value: PointSymbol; label: string }[] = [
+  { value: 'circle', label: 'Círculo' },
+  { value: 'square', label: 'Cuadrado' },
+  { value: 'triangle', label: 'Triángulo' },
+  { value: 'star', label: 'Estrella' },
+  { value: 'cross', label: 'Cruz' },
+];
+
+function getLineDash(dash: StrokeDash, width: number): number[] | undefined {
+  switch (dash) {
+    case 'dashed': return [4 * width, 3 * width];
+    case 'dotted': return [width, 2 * width];
+    case 'dash-dot': return [4 * width, 2 * width, width, 2 * width];
+    default: return undefined;
+  }
+}
+
+export function colorWithOpacity(color: string, opacity: number): string {
+  const [r, g, b] = asArray(color);
+  return `rgba(${r}, ${g}, ${b}, ${opacity})`;
+}
+
+function createPointImage(style: LayerStyle, fill: Fill, stroke: Stroke) {
+  const radius = style.pointRadius;
+  switch (style.pointSymbol) {
+    case 'square':
+      return new RegularShape({ points: 4, radius, angle: Math.PI / 4, fill, stroke });
+    case 'triangle':
+      return new RegularShape({ points: 3, radius, angle: 0, fill, stroke });
+    case 'star':
+      return new RegularShape({ points: 5, radius, radius2: radius / 2.5, angle: 0, fill, stroke });
+    case 'cross':
+      return new RegularShape({ points: 4, radius, radius2: 0, angle: 0, fill, stroke: new Stroke({ color: style.strokeColor, width: Math.max(2, style.strokeWidth) }) });
+    default:
+      return new CircleStyle({ radius, fill, stroke });
+  }
+}
+
+export function createOLStyle(style: LayerStyle): Style {
+  const fill = new Fill({ color: colorWithOpacity(style.fillColor, style.fillOpacity) });
+  const stroke = new Stroke({
+    color: style.strokeColor,
+    width: style.strokeWidth,
+    lineDash: getLineDash(style.strokeDash, style.strokeWidth),
+  });
+  // Points are drawn with an opaque fill so they remain visible at small radii.
+  const pointFill = new Fill({ color: style.fillColor });
+  return new Style({
+    fill,
+    stroke,
+    image: style.pointRadius > 0 ? createPointImage(style, pointFill, stroke) : undefined,
+  });
+}
+
+function findThematicColor(thematic: ThematicStyle, value: any): string | null {
+  if (thematic.mode === 'categorized') {
+    if (value === null || value === undefined) return null;
+    const match = thematic.classes.find(c => c.value === String(value));
+    return match ? match.color : null;
+  }
+  const num = toNumericValue(value);
+  if (num === null) return null;
+  const match = thematic.classes.find((c, i) => num <= c.max && (num >= c.min || i === 0));
+  return match ? match.color : null;
+}
+
+function isLineGeometry(feature: FeatureLike): boolean {
+  const type = feature.getGeometry()?.getType();
+  return type === 'LineString' || type === 'MultiLineString';
+}
+
+/**
+ * Builds the style for a layer: a single `Style` for simple styles, or a style
+ * function that colors each feature by its class when a thematic style is set.
+ * Lines take the class color on their stroke; polygons and points on their fill.
+ */
+export function createLayerStyle(style: LayerStyle): Style | StyleFunction {
+  const baseStyle = createOLStyle(style);
+  const { thematic } = style;
+  if (!thematic || thematic.classes.length === 0) return baseStyle;
+
+  const cache = new Map<string, Style>();
+  return (feature) => {
+    const color = findThematicColor(thematic, feature.get(thematic.field));
+    if (!color) return baseStyle;
+    const line = isLineGeometry(feature);
+    const cacheKey = `${line ? 'line' : 'area'}:${color}`;
+    let classStyle = cache.get(cacheKey);
+    if (!classStyle) {
+      classStyle = createOLStyle(line ? { ...style, strokeColor: color } : { ...style, fillColor: color });
+      cache.set(cacheKey, classStyle);
+    }
+    return classStyle;
+  };
+}
+
+export function buildCategorizedStyle(features: OLFeature<any>[], field: string): ThematicStyle {
+  const counts = new Map<string, number>();
+  features.forEach(feature => {
+    const value = feature.get(field);
+    if (value === null || value === undefined || value === '') return;
+    const key = String(value);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  const values = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_CATEGORIES)
+    .map(([value]) => value)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  return {
+    mode: 'categorized',
+    field,
+    classes: values.map((value, i) => ({ value, color: getCategoryColor(i) })),
+  };
+}
+
+export function buildGraduatedStyle(
+  features: OLFeature<any>[],
+  field: string,
+  method: ClassificationMethod,
+  classCount: number,
+  rampId: string
+): ThematicStyle {
+  const values = features
+    .map(feature => toNumericValue(feature.get(field)))
+    .filter((v): v is number => v !== null);
+  if (values.length === 0) return { mode: 'graduated', field, method, rampId, classes: [] };
+
+  const min = values.reduce((acc, v) => Math.min(acc, v), Infinity);
+  const max = values.reduce((acc, v) => Math.max(acc, v), -Infinity);
+  const bounds = [min, ...computeBreaks(values, method, classCount), max];
+  const colors = interpolateRamp(rampId, Math.max(bounds.length - 1, 1));
+  const classes: GraduatedClass[] = bounds.length > 1
+    ? bounds.slice(0, -1).map((lower, i) => ({ min: lower, max: bounds[i + 1], color: colors[i] }))
+    : [{ min, max, color: colors[0] }];
+  return { mode: 'graduated', field, method, rampId, classes };
+}
+
+const formatLegendNumber = (value: number) =>
+  value.toLocaleString('es-AR', { maximumFractionDigits: Math.abs(value) < 10 ? 2 : 0 });
+
+export function getLegendEntries(style: LayerStyle): LegendEntry[] {
+  const { thematic } = style;
+  if (!thematic) return [];
+  if (thematic.mode === 'categorized') {
+    return thematic.classes.map(c => ({ label: c.value, color: c.color }));
+  }
+  return thematic.classes.map(c => ({ label: `${formatLegendNumber(c.min)} – ${formatLegendNumber(c.max)}`, color: c.color }));
+}
+
+// Feature-level styles a layer style has overridden, kept so they can be brought back.
+const overriddenFeatureStyles = new WeakMap<OLFeature<any>, StyleLike>();
+
+/** Whether any feature of the layer carries a style of its own (e.g. from KML) that a layer style would override. */
+export function hasFeatureStyles(olLayer: VectorLayerType<VectorSourceType<OLFeature<any>>>): boolean {
+  return olLayer.getSource()?.getFeatures().some(feature => !!feature.getStyle()) ?? false;
+}
+
+/**
+ * Applies a style description to a layer. Feature-level styles (e.g. from KML)
+ * would otherwise take precedence over the layer style, so they are set aside
+ * for restoreFeatureStyles.
+ */
+export function applyLayerStyle(olLayer: VectorLayerType<VectorSourceType<OLFeature<any>>>, style: LayerStyle) {
+  olLayer.getSource()?.getFeatures().forEach(feature => {
+    const featureStyle = feature.getStyle();
+    if (!featureStyle) return;
+    overriddenFeatureStyles.set(feature, featureStyle);
+    feature.setStyle(undefined);
+  });
+  olLayer.setStyle(createLayerStyle(style));
+}
+
+/** Brings back the feature-level styles applyLayerStyle set aside, which again take precedence. */
+export function restoreFeatureStyles(olLayer: VectorLayerType<VectorSourceType<OLFeature<any>>>) {
+  olLayer.getSource()?.getFeatures().forEach(feature => {
+    const featureStyle = overriddenFeatureStyles.get(feature);
+    if (!featureStyle) return;
+    feature.setStyle(featureStyle);
+    overriddenFeatureStyles.delete(feature);
+  });
+}
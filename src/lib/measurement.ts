@@ -0,0 +1,107 @@
+import type Geometry from 'ol/geom/Geometry';
+import type LineString from 'ol/geom/LineString';
+import type Polygon from 'ol/geom/Polygon';
+import type { Coordinate } from 'ol/coordinate';
+import { getArea, getLength } from 'ol/sphere';
+import { toLonLat } from 'ol/proj';
+
+export type MeasureTool = 'length' | 'area';
+export type LengthUnit = 'm' | 'km';
+export type AreaUnit = 'm2' | 'ha' | 'km2';
+
+export interface MeasureUnits {
+  length: LengthUnit;
+  area: AreaUnit;
+}
+
+export const DEFAULT_MEASURE_UNITS: MeasureUnits = { length: 'km', area: 'ha' };
+
+export const LENGTH_UNIT_OPTIONS: { value: LengthUnit; label: string; factor: number }[] = [
+  { value: 'm', label: 'm', factor: 1 },
+  { value: 'km', label: 'km', factor: 1000 },
+];
+
+export const AREA_UNIT_OPTIONS: { value: AreaUnit; label: string; factor: number }[] = [
+  { value: 'm2', label: 'm²', factor: 1 },
+  { value: 'ha', label: 'ha', factor: 10_000 },
+  { value: 'km2', label: 'km²', factor: 1_000_000 },
+];
+
+// Geometries are in the map projection; ol/sphere measures them on the sphere, so
+// the results don't carry Web Mercator's scale distortion (≈1.24x at -36° latitude).
+const MAP_PROJECTION = 'EPSG:3857';
+
+const numberFormat = new Intl.NumberFormat('es-AR', { maximumFractionDigits: 2 });
+
+export function getGeodesicLength(geometry: Geometry): number {
+  return getLength(geometry, { projection: MAP_PROJECTION });
+}
+
+export function getGeodesicArea(geometry: Geometry): number {
+  return Math.abs(getArea(geometry, { projection: MAP_PROJECTION }));
+}
+
+/** Initial great-circle bearing from `from` to `to`, in degrees clockwise from north (0–360). */
+export function getGeodesicBearing(from: Coordinate, to: Coordinate): number {
+  const [lon1, lat1] = toLonLat(from, MAP_PROJECTION).map(value => value * Math.PI / 180);
+  const [lon2, lat2] = toLonLat(to, MAP_PROJECTION).map(value => value * Math.PI / 180);
+  const deltaLon = lon2 - lon1;
+  const y = Math.sin(deltaLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLon);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+export function formatLength(meters: number, unit: LengthUnit): string {
+  const option = LENGTH_UNIT_OPTIONS.find(o => o.value === unit) ?? LENGTH_UNIT_OPTIONS[0];
+  return `${numberFormat.format(meters / option.factor)} ${option.label}`;
+}
+
+export function formatArea(squareMeters: number, unit: AreaUnit): string {
+  const option = AREA_UNIT_OPTIONS.find(o => o.value === unit) ?? AREA_UNIT_OPTIONS[0];
+  return `${numberFormat.format(squareMeters / option.factor)} ${option.label}`;
+}
+
+export function formatBearing(degrees: number): string {
+  return `${degrees.toFixed(1)}°`;
+}
+
+/** Measured values stored on a measurement when it is kept as a drawn feature. */
+export function getMeasurementProperties(geometry: Geometry): Record<string, number> {
+  if (geometry.getType() === 'Polygon') {
+    return {
+      area_m2: Math.round(getGeodesicArea(geometry) * 100) / 100,
+      perimetro_m: Math.round(getGeodesicLength(geometry) * 100) / 100,
+    };
+  }
+  const properties: Record<string, number> = { longitud_m: Math.round(getGeodesicLength(geometry) * 100) / 100 };
+  const coordinates = (geometry as LineString).getCoordinates();
+  if (coordinates.length === 2) {
+    properties.rumbo_grados = Math.round(getGeodesicBearing(coordinates[0], coordinates[1]) * 10) / 10;
+  }
+  return properties;
+}
+
+/**
+ * Tooltip text for a measurement: total length and the bearing of the last segment
+ * for lines, area and perimeter for polygons.
+ */
+export function getMeasurementLabel(geometry: Geometry, units: MeasureUnits): string {
+  if (geometry.getType() === 'Polygon') {
+    const polygon = geometry as Polygon;
+    return `${formatArea(getGeodesicArea(polygon), units.area)}\nPerímetro: ${formatLength(getGeodesicLength(polygon), units.length)}`;
+  }
+  const line = geometry as LineString;
+  const coordinates = line.getCoordinates();
+  const label = formatLength(getGeodesicLength(line), units.length);
+  if (coordinates.length < 2) return label;
+  const bearing = getGeodesicBearing(coordinates[coordinates.length - 2], coordinates[coordinates.length - 1]);
+  return `${label}\nRumbo: ${formatBearing(bearing)}`;
+}
+
+/** Where to anchor a measurement's tooltip on the map. */
+export function getMeasurementAnchor(geometry: Geometry): Coordinate {
+  if (geometry.getType() === 'Polygon') {
+    return (geometry as Polygon).getInteriorPoint().getCoordinates().slice(0, 2);
+  }
+  return (geometry as LineString).getLastCoordinate();
+}
@@ -0,0 +1,229 @@
+import type { Feature as OLFeature } from 'ol';
+import type { Coordinate } from 'ol/coordinate';
+import { GeoJSON } from 'ol/format';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import { fromLonLat, toLonLat } from 'ol/proj';
+
+import type { MapLayer } from '@/components/geo-mapper-client';
+import { createFeatureStyle, describeFeatureStyle, type FeatureStyleDescription } from '@/lib/feature-style';
+import { createLayerStyle, type LayerStyle } from '@/lib/layer-style';
+import type { FieldDefinition } from '@/lib/field-schema';
+
+export const PROJECT_FORMAT = 'visor-deas-project';
+export const PROJECT_FORMAT_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.visor.json';
+
+export interface ProjectViewState {
+  center: [number, number]; // lon/lat in EPSG:4326
+  zoom: number;
+}
+
+export interface ProjectLayer {
+  id: string;
+  name: string;
+  visible: boolean;
+  opacity?: number;
+  minZoom?: number;
+  maxZoom?: number;
+  style?: LayerStyle;
+  fieldSchema?: FieldDefinition[];
+  features: any; // GeoJSON FeatureCollection in EPSG:4326
+  featureStyles?: ProjectFeatureStyles;
+}
+
+/** A layer without its features, which sessions store apart. */
+export type ProjectLayerInfo = Omit<ProjectLayer, 'features' | 'featureStyles'>;
+
+export type ProjectLayerFeatures = Pick<ProjectLayer, 'features' | 'featureStyles'>;
+
+/** Styles the features of a layer carry themselves, e.g. from a KML, each distinct one stored once. */
+export interface ProjectFeatureStyles {
+  styles: FeatureStyleDescription[][];
+  features: (number | null)[]; // index into `styles` for each feature, in the order of `features`
+  images: Record<string, string>; // icon src -> data URL, for icons only this page can load (blob URLs)
+}
+
+/** A saved map session. Layers are stored bottom-up, in drawing order. */
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  baseLayerId: string;
+  view: ProjectViewState;
+  selectedOSMCategoryIds: string[];
+  layers: ProjectLayer[];
+  drawings: any; // GeoJSON FeatureCollection in EPSG:4326
+  drawingFieldSchema?: FieldDefinition[];
+}
+
+export interface ProjectState {
+  layers: MapLayer[];
+  drawingFeatures: OLFeature<any>[];
+  drawingFieldSchema: FieldDefinition[];
+  baseLayerId: string;
+  viewCenter: Coordinate; // EPSG:3857
+  viewZoom: number;
+  selectedOSMCategoryIds: string[];
+}
+
+const geoJsonFormat = new GeoJSON();
+const formatOptions = { dataProjection: 'EPSG:4326', featureProjection: 'EPSG:3857' };
+
+export function writeFeatureCollection(features: OLFeature<any>[]): any {
+  return geoJsonFormat.writeFeaturesObject(features, formatOptions);
+}
+
+export function readFeatureCollection(featureCollection: any): OLFeature<any>[] {
+  if (!featureCollection || !Array.isArray(featureCollection.features)) return [];
+  return geoJsonFormat.readFeatures(featureCollection, formatOptions) as OLFeature<any>[];
+}
+
+// Blob URLs don't change while they exist, so each image is read once per page.
+const imageDataUrlCache = new Map<string, Promise<string>>();
+
+function readImageDataUrl(url: string): Promise<string> {
+  let dataUrl = imageDataUrlCache.get(url);
+  if (!dataUrl) {
+    dataUrl = fetch(url)
+      .then(response => response.blob())
+      .then(blob => new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+      }));
+    dataUrl.catch(() => imageDataUrlCache.delete(url));
+    imageDataUrlCache.set(url, dataUrl);
+  }
+  return dataUrl;
+}
+
+async function writeFeatureStyles(features: OLFeature<any>[]): Promise<ProjectFeatureStyles | undefined> {
+  const styles: FeatureStyleDescription[][] = [];
+  const styleIndexes = new Map<string, number>();
+  const blobUrls = new Set<string>();
+  let hasStyles = false;
+  const featureStyleIndexes = features.map(feature => {
+    const descriptions = describeFeatureStyle(feature);
+    if (!descriptions) return null;
+    hasStyles = true;
+    const key = JSON.stringify(descriptions);
+    let index = styleIndexes.get(key);
+    if (index === undefined) {
+      index = styles.push(descriptions) - 1;
+      styleIndexes.set(key, index);
+      descriptions.forEach(description => {
+        if (description.icon?.src.startsWith('blob:')) blobUrls.add(description.icon.src);
+      });
+    }
+    return index;
+  });
+  if (!hasStyles) return undefined;
+
+  const images: Record<string, string> = {};
+  for (const url of blobUrls) {
+    try {
+      images[url] = await readImageDataUrl(url);
+    } catch (error) {
+      console.error(`No se pudo leer el ícono ${url}:`, error);
+    }
+  }
+  return { styles, features: featureStyleIndexes, images };
+}
+
+function readFeatureStyles(features: OLFeature<any>[], featureStyles: ProjectFeatureStyles) {
+  const styles = featureStyles.styles.map(descriptions => createFeatureStyle(descriptions.map(description => {
+    const src = description.icon?.src;
+    return src && featureStyles.images[src] ? { ...description, icon: { ...description.icon!, src: featureStyles.images[src] } } : description;
+  })));
+  features.forEach((feature, i) => {
+    const index = featureStyles.features[i];
+    if (index !== null && index !== undefined && styles[index]) feature.setStyle(styles[index]);
+  });
+}
+
+export function createProjectLayerInfo(layer: MapLayer): ProjectLayerInfo {
+  return {
+    id: layer.id,
+    name: layer.name,
+    visible: layer.visible,
+    opacity: layer.opacity,
+    minZoom: layer.minZoom,
+    maxZoom: layer.maxZoom,
+    style: layer.style,
+    fieldSchema: layer.fieldSchema,
+  };
+}
+
+/** Serializes the features of a layer, the costly part of saving it. */
+export async function writeLayerFeatures(features: OLFeature<any>[]): Promise<ProjectLayerFeatures> {
+  return { features: writeFeatureCollection(features), featureStyles: await writeFeatureStyles(features) };
+}
+
+export async function createProjectLayer(layer: MapLayer): Promise<ProjectLayer> {
+  return { ...createProjectLayerInfo(layer), ...(await writeLayerFeatures(layer.olLayer.getSource()?.getFeatures() ?? [])) };
+}
+
+export function createProjectViewState(viewCenter: Coordinate, viewZoom: number): ProjectViewState {
+  const [lon, lat] = toLonLat(viewCenter, 'EPSG:3857');
+  return { center: [lon, lat], zoom: viewZoom };
+}
+
+export async function createProjectFile(state: ProjectState): Promise<ProjectFile> {
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    baseLayerId: state.baseLayerId,
+    view: createProjectViewState(state.viewCenter, state.viewZoom),
+    selectedOSMCategoryIds: state.selectedOSMCategoryIds,
+    layers: await Promise.all(state.layers.map(createProjectLayer)),
+    drawings: writeFeatureCollection(state.drawingFeatures),
+    drawingFieldSchema: state.drawingFieldSchema,
+  };
+}
+
+export function parseProjectFile(content: string): ProjectFile {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error("El archivo de proyecto no es un JSON válido.");
+  }
+  if (!data || data.format !== PROJECT_FORMAT) {
+    throw new Error("El archivo no es un proyecto de Visor DEAS.");
+  }
+  if (typeof data.version !== 'number' || data.version > PROJECT_FORMAT_VERSION) {
+    throw new Error(`Versión de proyecto no soportada: ${data.version}. Actualice la aplicación.`);
+  }
+  if (!Array.isArray(data.layers) || !data.view || !Array.isArray(data.view.center)) {
+    throw new Error("El archivo de proyecto está incompleto o dañado.");
+  }
+  return {
+    ...data,
+    selectedOSMCategoryIds: Array.isArray(data.selectedOSMCategoryIds) ? data.selectedOSMCategoryIds : [],
+  } as ProjectFile;
+}
+
+export function createMapLayerFromProject(projectLayer: ProjectLayer): MapLayer {
+  const features = readFeatureCollection(projectLayer.features);
+  if (projectLayer.featureStyles) readFeatureStyles(features, projectLayer.featureStyles);
+  const olLayer = new VectorLayer({ source: new VectorSource({ features }) });
+  if (projectLayer.style) olLayer.setStyle(createLayerStyle(projectLayer.style));
+  return {
+    id: projectLayer.id,
+    name: projectLayer.name,
+    olLayer,
+    visible: projectLayer.visible,
+    opacity: projectLayer.opacity,
+    minZoom: projectLayer.minZoom,
+    maxZoom: projectLayer.maxZoom,
+    style: projectLayer.style,
+    fieldSchema: projectLayer.fieldSchema,
+  };
+}
+
+export function getProjectViewCenter(project: ProjectFile): Coordinate {
+  return fromLonLat(project.view.center, 'EPSG:3857');
+}
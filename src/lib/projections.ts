@@ -0,0 +1,258 @@
+import proj4 from 'proj4';
+import { get as getProjection } from 'ol/proj';
+import { register } from 'ol/proj/proj4';
+import type { Extent } from 'ol/extent';
+
+export interface ProjectedCrsOption {
+  code: string;
+  name: string;
+}
+
+// UTM zones covering continental Argentina, on WGS84.
+const UTM_SOUTH_ZONES = [18, 19, 20, 21];
+
+// Argentina zones 1–7: Gauss-Krüger strips 3° wide starting at 72°W,
+// with false easting carrying the zone number (zone 5 → 5 500 000 m).
+const ARGENTINA_ZONES = [1, 2, 3, 4, 5, 6, 7];
+
+function utmDefinition(zone: number, south: boolean): string {
+  return `+proj=utm +zone=${zone}${south ? ' +south' : ''} +datum=WGS84 +units=m +no_defs`;
+}
+
+function gaussKrugerDefinition(zone: number, datum: string): string {
+  const centralMeridian = -72 + (zone - 1) * 3;
+  const falseEasting = zone * 1_000_000 + 500_000;
+  return `+proj=tmerc +lat_0=-90 +lon_0=${centralMeridian} +k=1 +x_0=${falseEasting} +y_0=0 ${datum} +units=m +no_defs`;
+}
+
+function posgar2007Definition(zone: number): string {
+  return gaussKrugerDefinition(zone, '+ellps=GRS80 +towgs84=0,0,0,0,0,0,0');
+}
+
+// Campo Inchauspe / Argentina zones (EPSG:22181–22187), the datum of most legacy cadastral data.
+function campoInchauspeDefinition(zone: number): string {
+  return gaussKrugerDefinition(zone, '+ellps=intl +towgs84=-148,136,90,0,0,0,0');
+}
+
+export function getUtmZone(lon: number): number {
+  return Math.min(60, Math.max(1, Math.floor((lon + 180) / 6) + 1));
+}
+
+export function getUtmCode(zone: number, south: boolean): string {
+  return `EPSG:${(south ? 32700 : 32600) + zone}`;
+}
+
+export const POSGAR_2007_CRS_OPTIONS: ProjectedCrsOption[] = ARGENTINA_ZONES.map(zone => ({
+  code: `EPSG:${5342 + zone}`,
+  name: `POSGAR 2007 / Argentina ${zone}`,
+}));
+
+const CAMPO_INCHAUSPE_CRS_OPTIONS: ProjectedCrsOption[] = ARGENTINA_ZONES.map(zone => ({
+  code: `EPSG:${22180 + zone}`,
+  name: `Campo Inchauspe / Argentina ${zone}`,
+}));
+
+export const PROJECTED_CRS_OPTIONS: ProjectedCrsOption[] = [
+  ...POSGAR_2007_CRS_OPTIONS,
+  ...CAMPO_INCHAUSPE_CRS_OPTIONS,
+  ...UTM_SOUTH_ZONES.map(zone => ({ code: getUtmCode(zone, true), name: `WGS 84 / UTM ${zone}S` })),
+];
+
+const EPSG_CODE_PATTERN = /^(?:EPSG:{1,2}|urn:ogc:def:crs:EPSG:[\d.]*:)(\d+)$/i;
+
+// Export targets: lon/lat, Web Mercator and the Argentine projected systems.
+export const EXPORT_CRS_OPTIONS: ProjectedCrsOption[] = [
+  { code: 'EPSG:4326', name: 'WGS 84 (latitud/longitud)' },
+  { code: 'EPSG:3857', name: 'WGS 84 / Pseudo-Mercator' },
+  ...PROJECTED_CRS_OPTIONS,
+];
+
+// ESRI-flavoured WKT, the dialect .prj files are expected to use.
+export const WGS84_WKT = 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137,298.257223563]],PRIMEM["Greenwich",0],UNIT["Degree",0.017453292519943295]]';
+const POSGAR_2007_GEOGCS_WKT = 'GEOGCS["GCS_POSGAR_2007",DATUM["D_POSGAR_2007",SPHEROID["GRS_1980",6378137,298.257222101]],PRIMEM["Greenwich",0],UNIT["Degree",0.017453292519943295]]';
+// Carries the datum shift of the proj4 definition: without it GIS software reads the data about 75 m off.
+const CAMPO_INCHAUSPE_GEOGCS_WKT = 'GEOGCS["GCS_Campo_Inchauspe",DATUM["D_Campo_Inchauspe",SPHEROID["International_1924",6378388,297],TOWGS84[-148,136,90,0,0,0,0]],PRIMEM["Greenwich",0],UNIT["Degree",0.017453292519943295]]';
+const WEB_MERCATOR_WKT = `PROJCS["WGS_1984_Web_Mercator_Auxiliary_Sphere",${WGS84_WKT},PROJECTION["Mercator_Auxiliary_Sphere"],PARAMETER["False_Easting",0],PARAMETER["False_Northing",0],PARAMETER["Central_Meridian",0],PARAMETER["Standard_Parallel_1",0],PARAMETER["Auxiliary_Sphere_Type",0],UNIT["Meter",1]]`;
+
+function transverseMercatorWkt(name: string, geogcs: string, parameters: { falseEasting: number; falseNorthing: number; centralMeridian: number; scaleFactor: number; latitudeOfOrigin: number }): string {
+  return `PROJCS["${name}",${geogcs},PROJECTION["Transverse_Mercator"],` +
+    `PARAMETER["False_Easting",${parameters.falseEasting}],PARAMETER["False_Northing",${parameters.falseNorthing}],` +
+    `PARAMETER["Central_Meridian",${parameters.centralMeridian}],PARAMETER["Scale_Factor",${parameters.scaleFactor}],` +
+    `PARAMETER["Latitude_Of_Origin",${parameters.latitudeOfOrigin}],UNIT["Meter",1]]`;
+}
+
+function gaussKrugerWkt(name: string, geogcs: string, zone: number): string {
+  return transverseMercatorWkt(name, geogcs, {
+    falseEasting: zone * 1_000_000 + 500_000,
+    falseNorthing: 0,
+    centralMeridian: -72 + (zone - 1) * 3,
+    scaleFactor: 1,
+    latitudeOfOrigin: -90,
+  });
+}
+
+/** WKT for a Shapefile .prj, for the codes in EXPORT_CRS_OPTIONS and any WGS84 UTM zone. */
+export function getProjectionWkt(code: string): string | null {
+  const epsg = Number(code.match(EPSG_CODE_PATTERN)?.[1]);
+  if (epsg === 4326) return WGS84_WKT;
+  if (epsg === 3857) return WEB_MERCATOR_WKT;
+  const zone = epsg % 100;
+  if (epsg >= 5343 && epsg <= 5349) return gaussKrugerWkt(`POSGAR_2007_Argentina_${zone - 42}`, POSGAR_2007_GEOGCS_WKT, zone - 42);
+  // ArcGIS names these after the zone alone, the datum being in the GEOGCS.
+  if (epsg >= 22181 && epsg <= 22187) return gaussKrugerWkt(`Argentina_Zone_${zone - 80}`, CAMPO_INCHAUSPE_GEOGCS_WKT, zone - 80);
+  if ((epsg >= 32601 && epsg <= 32660) || (epsg >= 32701 && epsg <= 32760)) {
+    const south = epsg > 32700;
+    return transverseMercatorWkt(`WGS_1984_UTM_Zone_${zone}${south ? 'S' : 'N'}`, WGS84_WKT, {
+      falseEasting: 500_000,
+      falseNorthing: south ? 10_000_000 : 0,
+      centralMeridian: -183 + zone * 6,
+      scaleFactor: 0.9996,
+      latitudeOfOrigin: 0,
+    });
+  }
+  return null;
+}
+
+/** Legacy `crs` member so GeoJSON written outside lon/lat can be read back by GIS software. */
+export function getGeoJsonCrsMember(code: string): { type: 'name'; properties: { name: string } } | null {
+  const epsg = code.match(EPSG_CODE_PATTERN)?.[1];
+  if (!epsg || epsg === '4326') return null;
+  return { type: 'name', properties: { name: `urn:ogc:def:crs:EPSG::${epsg}` } };
+}
+
+let registered = false;
+
+/** Registers the proj4 definitions with OpenLayers. Safe to call more than once. */
+export function registerProjections() {
+  if (registered) return;
+  ARGENTINA_ZONES.forEach((zone, i) => proj4.defs(POSGAR_2007_CRS_OPTIONS[i].code, posgar2007Definition(zone)));
+  ARGENTINA_ZONES.forEach((zone, i) => proj4.defs(CAMPO_INCHAUSPE_CRS_OPTIONS[i].code, campoInchauspeDefinition(zone)));
+  UTM_SOUTH_ZONES.forEach(zone => proj4.defs(getUtmCode(zone, true), utmDefinition(zone, true)));
+  register(proj4);
+  registered = true;
+}
+
+/** Registers (once) the WGS84 UTM zone for places outside the predefined southern zones. */
+export function ensureUtmProjection(zone: number, south: boolean): string {
+  registerProjections();
+  const code = getUtmCode(zone, south);
+  if (!proj4.defs(code)) {
+    proj4.defs(code, utmDefinition(zone, south));
+    register(proj4);
+  }
+  return code;
+}
+
+const CRS84_PATTERN = /^(?:urn:ogc:def:crs:OGC:[\d.]*:)?CRS:?84$/i;
+// Top-level authority of a WKT definition, i.e. the one right before the closing bracket.
+const WKT_AUTHORITY_PATTERN = /(?:AUTHORITY|ID)\[\s*"EPSG"\s*,\s*"?(\d+)"?\s*\]\s*\]\s*$/i;
+const WKT_PROJCS_NAME_PATTERN = /^PROJCS\[\s*"([^"]+)"/i;
+const WKT_GEOGCS_NAME_PATTERN = /GEOGCS\[\s*"([^"]+)"/i;
+
+// Definitions of the CUSTOM: codes resolveProjection has registered.
+const customDefinitions = new Map<string, string>();
+
+function hashDefinition(definition: string): string {
+  let hash = 0;
+  for (let i = 0; i < definition.length; i++) hash = (hash * 31 + definition.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+}
+
+function normalizeWktName(name: string | undefined): string | undefined {
+  return name?.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+/**
+ * Recognizes the projected systems defined here by their WKT name, ESRI style ("POSGAR_2007_Argentina_5",
+ * or "Argentina_Zone_5" on a Campo Inchauspe or POSGAR 2007 GEOGCS) or EPSG style ("WGS 84 / UTM zone 20S").
+ * ESRI .prj files carry no datum shift, which for Campo Inchauspe would put the data about 75 m off
+ * if the WKT were handed to proj4.
+ */
+function matchKnownWktName(wkt: string): number | null {
+  const name = normalizeWktName(wkt.match(WKT_PROJCS_NAME_PATTERN)?.[1]);
+  if (!name) return null;
+  const posgar = name.match(/^POSGAR_2007_(?:ARGENTINA_)?(?:ZONE_)?([1-7])$/);
+  if (posgar) return 5342 + Number(posgar[1]);
+  const campoInchauspe = name.match(/^CAMPO_INCHAUSPE_(?:ARGENTINA_)?(?:ZONE_)?([1-7])$/);
+  if (campoInchauspe) return 22180 + Number(campoInchauspe[1]);
+  const argentinaZone = name.match(/^ARGENTINA_ZONE_([1-7])$/);
+  if (argentinaZone) {
+    const geogcs = normalizeWktName(wkt.match(WKT_GEOGCS_NAME_PATTERN)?.[1]) ?? '';
+    if (geogcs.includes('CAMPO_INCHAUSPE')) return 22180 + Number(argentinaZone[1]);
+    if (geogcs.includes('POSGAR_2007')) return 5342 + Number(argentinaZone[1]);
+  }
+  const utm = name.match(/^WGS_(?:19)?84_UTM_ZONE_(\d{1,2})([NS])$/);
+  if (utm && Number(utm[1]) >= 1 && Number(utm[1]) <= 60) return (utm[2] === 'S' ? 32700 : 32600) + Number(utm[1]);
+  return null;
+}
+
+/** Returns the code if OpenLayers can transform from it, defining UTM zones on demand. */
+function resolveEpsgCode(code: number): string | null {
+  registerProjections();
+  if (code >= 32601 && code <= 32660) return ensureUtmProjection(code - 32600, false);
+  if (code >= 32701 && code <= 32760) return ensureUtmProjection(code - 32700, true);
+  const epsgCode = `EPSG:${code}`;
+  return getProjection(epsgCode) ? epsgCode : null;
+}
+
+/**
+ * Resolves a CRS given as an EPSG code or URN, a proj4 string or WKT (e.g. a Shapefile's .prj)
+ * to a projection code registered with OpenLayers. Returns null when it can't be interpreted.
+ */
+export function resolveProjection(definition: string): string | null {
+  const trimmed = definition.trim();
+  if (!trimmed) return null;
+  if (CRS84_PATTERN.test(trimmed)) return 'EPSG:4326';
+  const epsgMatch = trimmed.match(EPSG_CODE_PATTERN);
+  if (epsgMatch) return resolveEpsgCode(Number(epsgMatch[1]));
+
+  const authorityMatch = trimmed.match(WKT_AUTHORITY_PATTERN);
+  const knownEpsg = authorityMatch ? Number(authorityMatch[1]) : matchKnownWktName(trimmed);
+  const knownCode = knownEpsg ? resolveEpsgCode(knownEpsg) : null;
+  if (knownCode) return knownCode;
+
+  // Anything else (ESRI-style .prj files carry no authority) is handed to proj4 as is.
+  registerProjections();
+  const code = `CUSTOM:${hashDefinition(trimmed)}`;
+  if (proj4.defs(code)) return code;
+  try {
+    proj4.defs(code, trimmed);
+    const parsed = proj4.defs(code);
+    if (!parsed || !parsed.projName) return null;
+    register(proj4);
+    customDefinitions.set(code, trimmed);
+    return code;
+  } catch (error) {
+    console.error("No se pudo interpretar la definición del sistema de referencia:", error);
+    return null;
+  }
+}
+
+/**
+ * A definition that resolveProjection turns back into `code`, e.g. in another thread, where
+ * the definitions registered on demand (custom ones, UTM zones) aren't registered yet.
+ */
+export function getProjectionDefinition(code: string): string {
+  return customDefinitions.get(code) ?? code;
+}
+
+/**
+ * Reads the CRS declared in the legacy (2008) `crs` member of a GeoJSON object.
+ * Returns undefined when there is none and null when it can't be resolved.
+ */
+export function getGeoJsonProjection(geojson: any): string | null | undefined {
+  const crs = geojson?.crs;
+  if (!crs) return undefined;
+  if (crs.type === 'name' && typeof crs.properties?.name === 'string') {
+    return resolveProjection(crs.properties.name);
+  }
+  if (crs.type === 'EPSG' && crs.properties?.code !== undefined) {
+    return resolveEpsgCode(Number(crs.properties.code));
+  }
+  return null;
+}
+
+/** Whether an extent fits in lon/lat degrees, the only safe guess for data without a CRS. */
+export function isLonLatExtent([minX, minY, maxX, maxY]: Extent): boolean {
+  return minX >= -180 && maxX <= 180 && minY >= -90 && maxY <= 90;
+}
@@ -0,0 +1,142 @@
+import {
+  PROJECT_FORMAT,
+  PROJECT_FORMAT_VERSION,
+  type ProjectFile,
+  type ProjectLayerFeatures,
+  type ProjectLayerInfo,
+} from '@/lib/project';
+
+const DB_NAME = 'visor-deas';
+const DB_VERSION = 2;
+const STORE_NAME = 'session';
+// Features of each layer, keyed by layer id, so a change to one layer rewrites only that layer.
+const FEATURES_STORE_NAME = 'session-features';
+const STATE_KEY = 'state';
+// Version 1 kept the whole session, features included, in a single record.
+const LEGACY_SESSION_KEY = 'current';
+export const DRAWINGS_FEATURES_KEY = 'drawings';
+
+export interface PanelPosition {
+  x: number;
+  y: number;
+}
+
+/** The working session kept in IndexedDB between page loads. */
+export interface StoredSession {
+  project: ProjectFile;
+  panels: {
+    tools: PanelPosition;
+    layers: PanelPosition;
+  };
+}
+
+/** Everything in a session but the features: small enough to be written on every pan. */
+export type StoredSessionState = Omit<ProjectFile, 'format' | 'version' | 'layers' | 'drawings'> & {
+  layers: ProjectLayerInfo[];
+  panels: StoredSession['panels'];
+};
+
+function openSessionDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB no está disponible en este navegador."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+      if (!request.result.objectStoreNames.contains(FEATURES_STORE_NAME)) {
+        request.result.createObjectStore(FEATURES_STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runSessionTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (transaction: IDBTransaction) => Promise<T> | T
+): Promise<T> {
+  const db = await openSessionDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, FEATURES_STORE_NAME], mode);
+      let result: T;
+      Promise.resolve(operation(transaction)).then(value => { result = value; }, reject);
+      transaction.oncomplete = () => resolve(result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function requestResult<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Writes the session state and the features of the given layers (or the drawings, under
+ * DRAWINGS_FEATURES_KEY). Features of layers no longer in the session are deleted.
+ */
+export async function saveSession(state: StoredSessionState, features: [string, ProjectLayerFeatures][]): Promise<void> {
+  await runSessionTransaction('readwrite', async transaction => {
+    const store = transaction.objectStore(STORE_NAME);
+    const featuresStore = transaction.objectStore(FEATURES_STORE_NAME);
+    store.put(state, STATE_KEY);
+    store.delete(LEGACY_SESSION_KEY);
+    features.forEach(([key, layerFeatures]) => featuresStore.put(layerFeatures, key));
+
+    const keptKeys = new Set([DRAWINGS_FEATURES_KEY, ...state.layers.map(layer => layer.id)]);
+    const storedKeys = await requestResult<IDBValidKey[]>(featuresStore.getAllKeys());
+    storedKeys.forEach(key => {
+      if (!keptKeys.has(String(key))) featuresStore.delete(key);
+    });
+  });
+}
+
+export async function loadSession(): Promise<StoredSession | null> {
+  return runSessionTransaction('readonly', async transaction => {
+    const store = transaction.objectStore(STORE_NAME);
+    const featuresStore = transaction.objectStore(FEATURES_STORE_NAME);
+    const state = await requestResult<StoredSessionState | undefined>(store.get(STATE_KEY));
+    if (!state) return (await requestResult<StoredSession | undefined>(store.get(LEGACY_SESSION_KEY))) ?? null;
+
+    const readFeatures = (key: string) => requestResult<ProjectLayerFeatures | undefined>(featuresStore.get(key));
+    const { panels, layers, ...project } = state;
+    const layerFeatures = await Promise.all(layers.map(layer => readFeatures(layer.id)));
+    const drawings = await readFeatures(DRAWINGS_FEATURES_KEY);
+    return {
+      project: {
+        ...project,
+        format: PROJECT_FORMAT,
+        version: PROJECT_FORMAT_VERSION,
+        // A layer whose features never got written comes back empty rather than failing the restore.
+        layers: layers.map((layer, i) => ({ ...layer, features: null, ...layerFeatures[i] })),
+        drawings: drawings?.features ?? null,
+      },
+      panels,
+    };
+  });
+}
+
+export async function clearSession(): Promise<void> {
+  await runSessionTransaction('readwrite', transaction => {
+    transaction.objectStore(STORE_NAME).clear();
+    transaction.objectStore(FEATURES_STORE_NAME).clear();
+  });
+}
+
+/** Whether a stored session holds anything worth offering to restore. */
+export function hasSessionContent(session: StoredSession | null): session is StoredSession {
+  if (!session) return false;
+  const drawings = session.project.drawings?.features ?? [];
+  return session.project.layers.length > 0 || drawings.length > 0;
+}
@@ -0,0 +1,183 @@
+import JSZip from 'jszip';
+import shpwrite, { type ShpWriteFiles } from 'shp-write';
+
+import { WGS84_WKT } from '@/lib/projections';
+
+// The dbf writer used by shp-write keeps only the first 8 characters of field names,
+// and text values longer than the field width would be cut anyway.
+const DBF_FIELD_NAME_LENGTH = 8;
+const DBF_TEXT_LENGTH = 254;
+// shp-write's dbf writer stores each character as a single Latin-1 byte.
+const DBF_CODEPAGE = 'ISO-8859-1';
+
+type ShapeType = 'POINT' | 'POLYLINE' | 'POLYGON';
+
+const SHAPE_TYPE_SUFFIXES: Record<ShapeType, string> = {
+  POINT: 'puntos',
+  POLYLINE: 'lineas',
+  POLYGON: 'poligonos',
+};
+
+export interface ShapefileLayerInput {
+  name: string;
+  featureCollection: any; // GeoJSON FeatureCollection, already in the target CRS
+}
+
+export function sanitizeFileName(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-zA-Z0-9_-]+/g, '_').replace(/^_+|_+$/g, '') || 'capa';
+}
+
+/** Maps property names to unique DBF-safe field names. */
+function buildFieldNameMap(keys: string[]): Map<string, string> {
+  const fieldNames = new Map<string, string>();
+  const used = new Set<string>();
+  keys.forEach((key, index) => {
+    let sanitizedKey = key.replace(/[^a-zA-Z0-9_]/g, '').substring(0, DBF_FIELD_NAME_LENGTH);
+    if (sanitizedKey.length === 0) sanitizedKey = `prop${index}`.substring(0, DBF_FIELD_NAME_LENGTH);
+    let counter = 0;
+    let finalKey = sanitizedKey;
+    while (used.has(finalKey.toLowerCase())) {
+      counter++;
+      finalKey = `${sanitizedKey.substring(0, DBF_FIELD_NAME_LENGTH - String(counter).length)}${counter}`;
+    }
+    used.add(finalKey.toLowerCase());
+    fieldNames.set(key, finalKey);
+  });
+  return fieldNames;
+}
+
+/**
+ * Builds DBF rows with consistent column types: a column is numeric only if every
+ * non-empty value is a number, otherwise all values are written as text.
+ */
+function buildDbfRows(properties: Record<string, any>[]): Record<string, any>[] {
+  const keys = Array.from(new Set(properties.flatMap(props => Object.keys(props ?? {}))));
+  const fieldNames = buildFieldNameMap(keys);
+  const numericKeys = new Set(keys.filter(key => properties.every(props => {
+    const value = props?.[key];
+    return value === null || value === undefined || (typeof value === 'number' && isFinite(value));
+  })));
+
+  return properties.map(props => {
+    const row: Record<string, any> = {};
+    keys.forEach(key => {
+      const value = props?.[key];
+      const fieldName = fieldNames.get(key)!;
+      if (numericKeys.has(key)) {
+        row[fieldName] = value ?? null;
+      } else if (value === null || value === undefined) {
+        row[fieldName] = '';
+      } else {
+        const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+        row[fieldName] = text.substring(0, DBF_TEXT_LENGTH);
+      }
+    });
+    return row;
+  });
+}
+
+// Positive for counter-clockwise rings.
+function signedRingArea(ring: number[][]): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  }
+  return area / 2;
+}
+
+// Shapefiles expect clockwise outer rings and counter-clockwise holes.
+function orientRing(ring: number[][], outer: boolean): number[][] {
+  const clockwise = signedRingArea(ring) < 0;
+  return clockwise === outer ? ring : [...ring].reverse();
+}
+
+function polygonRings(polygon: number[][][]): number[][][] {
+  return polygon.map((ring, i) => orientRing(ring, i === 0));
+}
+
+function groupByShapeType(features: any[]) {
+  const groups: Record<ShapeType, { geometries: any[]; properties: Record<string, any>[] }> = {
+    POINT: { geometries: [], properties: [] },
+    POLYLINE: { geometries: [], properties: [] },
+    POLYGON: { geometries: [], properties: [] },
+  };
+  features.forEach(feature => {
+    const geometry = feature.geometry;
+    const properties = feature.properties ?? {};
+    if (!geometry) return;
+    switch (geometry.type) {
+      case 'Point':
+        groups.POINT.geometries.push(geometry.coordinates);
+        groups.POINT.properties.push(properties);
+        break;
+      case 'MultiPoint':
+        // POINT shapefiles hold a single point per record, so multipoints are split.
+        geometry.coordinates.forEach((point: number[]) => {
+          groups.POINT.geometries.push(point);
+          groups.POINT.properties.push(properties);
+        });
+        break;
+      case 'LineString':
+        groups.POLYLINE.geometries.push([geometry.coordinates]);
+        groups.POLYLINE.properties.push(properties);
+        break;
+      case 'MultiLineString':
+        groups.POLYLINE.geometries.push(geometry.coordinates);
+        groups.POLYLINE.properties.push(properties);
+        break;
+      case 'Polygon':
+        groups.POLYGON.geometries.push(polygonRings(geometry.coordinates));
+        groups.POLYGON.properties.push(properties);
+        break;
+      case 'MultiPolygon':
+        groups.POLYGON.geometries.push(geometry.coordinates.flatMap(polygonRings));
+        groups.POLYGON.properties.push(properties);
+        break;
+    }
+  });
+  return groups;
+}
+
+function writeShapefile(rows: Record<string, any>[], type: ShapeType, geometries: any[]) {
+  return new Promise<ShpWriteFiles>((resolve, reject) => {
+    shpwrite.write(rows, type, geometries, (error, files) => {
+      if (error) reject(error);
+      else resolve(files);
+    });
+  });
+}
+
+/**
+ * Writes each layer as one shapefile set per geometry type (points, lines and
+ * polygons cannot share a shapefile) and returns them zipped together.
+ */
+export async function buildShapefileZip(layers: ShapefileLayerInput[], prj: string = WGS84_WKT): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  let filesWritten = 0;
+
+  for (const layer of layers) {
+    const groups = groupByShapeType(layer.featureCollection?.features ?? []);
+    const nonEmptyTypes = (Object.keys(groups) as ShapeType[]).filter(type => groups[type].geometries.length > 0);
+
+    for (const type of nonEmptyTypes) {
+      const { geometries, properties } = groups[type];
+      let baseName = sanitizeFileName(layer.name);
+      if (nonEmptyTypes.length > 1) baseName = `${baseName}_${SHAPE_TYPE_SUFFIXES[type]}`;
+      let fileName = baseName;
+      for (let counter = 2; usedNames.has(fileName.toLowerCase()); counter++) fileName = `${baseName}_${counter}`;
+      usedNames.add(fileName.toLowerCase());
+
+      const files = await writeShapefile(buildDbfRows(properties), type, geometries);
+      zip.file(`${fileName}.shp`, files.shp.buffer);
+      zip.file(`${fileName}.shx`, files.shx.buffer);
+      zip.file(`${fileName}.dbf`, files.dbf.buffer);
+      zip.file(`${fileName}.prj`, prj);
+      zip.file(`${fileName}.cpg`, DBF_CODEPAGE);
+      filesWritten++;
+    }
+  }
+
+  if (filesWritten === 0) throw new Error("No hay geometrías exportables a Shapefile.");
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
@@ -0,0 +1,204 @@
+import type { Feature as OLFeature } from 'ol';
+import { Feature } from 'ol';
+import Point from 'ol/geom/Point';
+import WKT from 'ol/format/WKT';
+
+export type TableCell = string | number | boolean | Date | null;
+export type Delimiter = ',' | ';' | '\t' | '|';
+export type DecimalSeparator = '.' | ',';
+
+export const DELIMITER_OPTIONS: { value: Delimiter; label: string }[] = [
+  { value: ',', label: 'Coma (,)' },
+  { value: ';', label: 'Punto y coma (;)' },
+  { value: '\t', label: 'Tabulación' },
+  { value: '|', label: 'Barra vertical (|)' },
+];
+
+export interface TableData {
+  headers: string[];
+  rows: TableCell[][];
+}
+
+export type GeometryColumnMapping =
+  | { mode: 'xy'; xColumn: number; yColumn: number; decimalSeparator: DecimalSeparator }
+  | { mode: 'wkt'; wktColumn: number };
+
+export interface TableFeaturesResult {
+  features: OLFeature<any>[]; // coordinates as found in the table, in the CRS the user picked
+  errors: string[];
+}
+
+const X_COLUMN_PATTERN = /^(x|lon|long|lng|longitud|longitude|este|easting|coord_?x)$/i;
+const Y_COLUMN_PATTERN = /^(y|lat|latitud|latitude|norte|northing|coord_?y)$/i;
+const WKT_COLUMN_PATTERN = /^(wkt|geom|geometry|geometria|geometría|the_geom|shape)(_\d+)?$/i;
+
+// Only the first errors are listed; the rest are summarized by count.
+const MAX_REPORTED_ERRORS = 20;
+
+/** Decodes text as UTF-8, falling back to Windows-1252, the usual encoding of CSVs saved by Excel in Spanish. */
+export function decodeText(buffer: ArrayBuffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
+
+/** Picks the delimiter that appears most often in the first line, outside quotes. */
+export function detectDelimiter(text: string): Delimiter {
+  const firstLine = (text.split(/\r?\n/, 1)[0] ?? '').replace(/"[^"]*"/g, '');
+  let best: Delimiter = ',';
+  let bestCount = 0;
+  DELIMITER_OPTIONS.forEach(({ value }) => {
+    const count = firstLine.split(value).length - 1;
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/** Splits delimited text into rows, honoring double-quoted fields with escaped quotes and line breaks. */
+export function parseDelimitedText(text: string, delimiter: Delimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+export async function readXlsxSheetNames(buffer: ArrayBuffer): Promise<string[]> {
+  const { readSheetNames } = await import('read-excel-file');
+  return readSheetNames(buffer);
+}
+
+export async function readXlsxRows(buffer: ArrayBuffer, sheet: string): Promise<TableCell[][]> {
+  const { default: readXlsxFile } = await import('read-excel-file');
+  const rows = await readXlsxFile(buffer, { sheet });
+  return rows.map(row => row.map(cell => cell as unknown as TableCell));
+}
+
+/** Turns raw rows into a table, taking the headers from the first row or numbering the columns. */
+export function toTableData(rows: TableCell[][], hasHeaderRow: boolean): TableData {
+  const columnCount = Math.max(0, ...rows.map(row => row.length));
+  const headerRow = hasHeaderRow ? rows[0] ?? [] : [];
+  // "geometry" is where OpenLayers keeps a feature's geometry, so a column can't take that name.
+  const used = new Set<string>(['geometry']);
+  const headers = Array.from({ length: columnCount }, (_, i) => {
+    const base = String(headerRow[i] ?? '').trim() || `columna_${i + 1}`;
+    let header = base;
+    for (let counter = 2; used.has(header.toLowerCase()); counter++) header = `${base}_${counter}`;
+    used.add(header.toLowerCase());
+    return header;
+  });
+  return { headers, rows: hasHeaderRow ? rows.slice(1) : rows };
+}
+
+export function guessGeometryColumns(headers: string[]): { xColumn: number; yColumn: number; wktColumn: number } {
+  const trimmed = headers.map(header => header.trim());
+  return {
+    xColumn: trimmed.findIndex(header => X_COLUMN_PATTERN.test(header)),
+    yColumn: trimmed.findIndex(header => Y_COLUMN_PATTERN.test(header)),
+    wktColumn: trimmed.findIndex(header => WKT_COLUMN_PATTERN.test(header)),
+  };
+}
+
+/**
+ * Reads a number written with the given decimal separator. Thousands separators aren't accepted:
+ * with the wrong separator selected, "-58.381" must fail rather than silently become -58381.
+ */
+export function parseTableNumber(value: TableCell, decimalSeparator: DecimalSeparator): number {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return NaN;
+  const trimmed = value.trim();
+  const pattern = decimalSeparator === ',' ? /^[-+]?\d+(,\d+)?$/ : /^[-+]?\d*\.?\d+$/;
+  if (!pattern.test(trimmed)) return NaN;
+  return Number(trimmed.replace(',', '.'));
+}
+
+function toPropertyValue(value: TableCell): string | number | boolean | null {
+  if (value instanceof Date) return value.toISOString();
+  return value ?? null;
+}
+
+/**
+ * Builds one feature per row from the mapped geometry columns; every other column becomes a property.
+ * Rows without a readable geometry are skipped and reported by their line in the file.
+ */
+export function buildTableFeatures(table: TableData, mapping: GeometryColumnMapping, firstDataLine: number): TableFeaturesResult {
+  const features: OLFeature<any>[] = [];
+  const errors: string[] = [];
+  let errorCount = 0;
+  const wktFormat = new WKT();
+  const geometryColumns = mapping.mode === 'xy' ? [mapping.xColumn, mapping.yColumn] : [mapping.wktColumn];
+
+  table.rows.forEach((row, index) => {
+    const line = firstDataLine + index;
+    const reportError = (message: string) => {
+      errorCount++;
+      if (errors.length < MAX_REPORTED_ERRORS) errors.push(`Fila ${line}: ${message}.`);
+    };
+
+    let feature: OLFeature<any>;
+    if (mapping.mode === 'xy') {
+      const x = parseTableNumber(row[mapping.xColumn], mapping.decimalSeparator);
+      const y = parseTableNumber(row[mapping.yColumn], mapping.decimalSeparator);
+      if (!Number.isFinite(x) || !Number.isFinite(y)) {
+        reportError("coordenadas vacías o no numéricas");
+        return;
+      }
+      feature = new Feature(new Point([x, y]));
+    } else {
+      const wkt = row[mapping.wktColumn];
+      if (typeof wkt !== 'string' || wkt.trim() === '') {
+        reportError("sin geometría WKT");
+        return;
+      }
+      try {
+        feature = new Feature(wktFormat.readGeometry(wkt.trim()));
+      } catch {
+        reportError("WKT inválido");
+        return;
+      }
+    }
+
+    table.headers.forEach((header, column) => {
+      if (!geometryColumns.includes(column)) feature.set(header, toPropertyValue(row[column] ?? null), true);
+    });
+    features.push(feature);
+  });
+
+  if (errorCount > errors.length) errors.push(`... y ${errorCount - errors.length} fila(s) más con errores.`);
+  return { features, errors };
+}
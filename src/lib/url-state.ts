@@ -0,0 +1,74 @@
+/**
+ * Map state shared through the URL hash, e.g.
+ * `#map=9.00/-36.50000/-60.00000&base=carto-light&layers=Parcelas,Calles`.
+ * Center is lon/lat in EPSG:4326. `layers` lists the names of the visible layers, as layer
+ * ids are made anew in each session; an empty `layers=` means every layer is hidden. Layers
+ * travel in project files, not in the link, so it only applies to a project or session
+ * restored with those layers.
+ */
+export interface UrlMapState {
+  center?: [number, number];
+  zoom?: number;
+  baseLayerId?: string;
+  visibleLayerNames?: string[];
+}
+
+const COORDINATE_DECIMALS = 5;
+const ZOOM_DECIMALS = 2;
+
+function decodeUrlComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+export function parseUrlState(hash: string): UrlMapState {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const state: UrlMapState = {};
+
+  const mapParam = params.get('map');
+  if (mapParam) {
+    const [zoom, lat, lon] = mapParam.split('/').map(Number);
+    if ([zoom, lat, lon].every(isFinite) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180) {
+      state.zoom = zoom;
+      state.center = [lon, lat];
+    }
+  }
+
+  const baseParam = params.get('base');
+  if (baseParam) state.baseLayerId = baseParam;
+
+  // Read undecoded: each name is encoded by itself, so a comma within a name doesn't split it.
+  const layersPart = hash.replace(/^#/, '').split('&').find(part => part.startsWith('layers='));
+  if (layersPart !== undefined) {
+    state.visibleLayerNames = layersPart.substring('layers='.length).split(',').filter(Boolean).map(decodeUrlComponent);
+  }
+
+  return state;
+}
+
+export function buildUrlHash(state: UrlMapState): string {
+  const parts: string[] = [];
+  if (state.center && state.zoom !== undefined) {
+    const [lon, lat] = state.center;
+    parts.push(`map=${state.zoom.toFixed(ZOOM_DECIMALS)}/${lat.toFixed(COORDINATE_DECIMALS)}/${lon.toFixed(COORDINATE_DECIMALS)}`);
+  }
+  if (state.baseLayerId) parts.push(`base=${encodeURIComponent(state.baseLayerId)}`);
+  if (state.visibleLayerNames) parts.push(`layers=${state.visibleLayerNames.map(encodeURIComponent).join(',')}`);
+  return parts.length > 0 ? `#${parts.join('&')}` : '';
+}
+
+export function readUrlState(): UrlMapState {
+  if (typeof window === 'undefined') return {};
+  return parseUrlState(window.location.hash);
+}
+
+/** Replaces the current hash without adding a history entry for every pan. */
+export function writeUrlState(state: UrlMapState) {
+  if (typeof window === 'undefined') return;
+  const hash = buildUrlHash(state);
+  if (hash === window.location.hash) return;
+  window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}${hash}`);
+}
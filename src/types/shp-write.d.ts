@@ -45,5 +45,20 @@ declare module 'shp-write' {
     ...geojsonFeatureCollections: (GeoJSONFeatureCollection | ShpWriteOptions)[]
   ): void;
 
+  export interface ShpWriteFiles {
+    shp: { buffer: ArrayBuffer };
+    shx: { buffer: ArrayBuffer };
+    dbf: { buffer: ArrayBuffer };
+  }
+
+  // Low-level writer for a single shapefile set. Geometries are [x, y] for POINT
+  // and arrays of parts (POLYLINE) or rings (POLYGON) otherwise.
+  export function write(
+    rows: object[],
+    geometryType: 'POINT' | 'POLYLINE' | 'POLYGON',
+    geometries: any[],
+    callback: (error: Error | null, files: ShpWriteFiles) => void
+  ): void;
+
   // Other functions might exist, but zip and download are common for usage.
 }